@@ -101,19 +101,26 @@ jest.mock('framer-motion', () => ({
 // Mock Zustand stores - only provide default implementations
 // Individual test files can override these mocks as needed
 jest.mock('@/store/claraStore', () => ({
-  useClaraStore: jest.fn(() => ({
+  useClaraStore: Object.assign(jest.fn(() => ({
     addMessage: jest.fn(),
     setProcessing: jest.fn(),
     setUserName: jest.fn(),
     setPersonality: jest.fn(),
     setAISpeaking: jest.fn(),
-  })),
+    interruptAISpeaking: jest.fn(),
+    setReconnecting: jest.fn(),
+    startNewSession: jest.fn(),
+    restoreConversation: jest.fn(),
+  })), {
+    getState: jest.fn(() => ({ phase: 'idle' })),
+  }),
   useClaraConversationState: jest.fn(() => ({
     isProcessing: false,
     isListening: false,
     isAISpeaking: false,
   })),
   useClaraMessages: jest.fn(() => []),
+  useClaraHasHydrated: jest.fn(() => true),
   useClaraSessionState: jest.fn(() => ({
     userName: 'Test User',
     selectedPersonality: 'friendly',
@@ -5,25 +5,45 @@ import {
   useClaraStore,
   useClaraConversationState,
   useClaraMessages,
-  useClaraSessionState
+  useClaraSessionState,
+  useClaraHasHydrated
 } from '@/store/claraStore';
 import { useShallow } from 'zustand/react/shallow';
-import { SpeechInterface } from '@/components/shared/SpeechInterface';
+import { SpeechInterface, type SpeechInterfaceRef } from '@/components/shared/SpeechInterface';
 import { EmotionalBackdrop, type EmotionalMood } from '@/components/clara/EmotionalBackdrop';
 import { VoicePoweredOrb } from '@/components/ui/voice-powered-orb';
 import { Auth } from '@/components/shared/Auth';
 import { useAuth, DEV_AUTH_BYPASS } from '@/components/shared/AuthProvider';
 import { useAdminAuth } from '@/hooks/useAdminAuth';
 import { useSentimentAnalysis } from '@/hooks/useSentimentAnalysis';
-import { sentimentToMoodMapping, HEARTBEAT_BPM_CONFIGS } from '@/utils/heartbeat-utils';
+import { HEARTBEAT_BPM_CONFIGS } from '@/utils/heartbeat-utils';
+import { logRowsToMessages } from '@/utils/conversation-history';
 import { HeartbeatIcon } from '@/components/clara/HeartbeatIcon';
 import { HeartbeatAudio } from '@/components/clara/HeartbeatAudio';
 import { HeartbeatControls } from '@/components/clara/HeartbeatControls';
+import { ConversationComposer, type ComposerSendOptions } from '@/components/clara/ConversationComposer';
+import { ConversationTranscript } from '@/components/clara/ConversationTranscript';
+import { ContinueConversationPrompt } from '@/components/clara/ContinueConversationPrompt';
+import { VadMeter } from '@/components/clara/VadMeter';
+import { LiveCaptions } from '@/components/clara/LiveCaptions';
+import { ConversationSettings } from '@/components/clara/ConversationSettings';
+import { RecordingControls } from '@/components/clara/RecordingControls';
+import { MicSetupDialog } from '@/components/clara/MicSetup';
 import { type HeartbeatConfiguration } from '@/components/clara/HeartbeatConfig';
 import { getPerformanceMonitor } from '@/lib/heartbeat-performance';
+import { getAudioGraph } from '@/lib/audio-graph';
+import { MoodArbiter } from '@/lib/mood-arbiter';
 import { config } from '@/lib/config';
-import { BrowserSpeechService, spokenTextSoFar } from '@/lib/speech';
+import { getMicManager } from '@/lib/mic';
+import { BrowserSpeechService, isLikelyEcho, spokenTextSoFar } from '@/lib/speech';
+import { claraStreamClient, type ClaraResponseData, type ClaraStreamRequest } from '@/services/clara-stream-client';
+import { conversationHistoryApi } from '@/services/conversationHistoryApi';
+import { isSpeechRecognitionSupported } from '@/lib/simpleSpeech';
+import {
+  selectUserSettings, useInteractionMode, useLanguage, useMasterVolume, useMoodSource, useSettingsStore, useVoiceSettings,
+} from '@/store/settingsStore';
 import Link from 'next/link';
+import { History, MessageSquarePlus, MessageSquareText } from 'lucide-react';
 
 // Orb hue rotation (degrees) approximating each mood's brand colour
 // Hue rotations visually matched against EmotionalBackdrop's mood palette
@@ -39,36 +59,50 @@ const MOOD_HUE: Record<EmotionalMood, number> = {
   excited: 307, // magenta pink
 };
 
-// Backend emotion vocabulary → frontend EmotionalMood
-const EMOTION_MOOD: Record<string, EmotionalMood> = {
-  'calm': 'calm',
-  'happy': 'happy',
-  'sad': 'sad',
-  'stressed': 'frustrated',
-  'sassy': 'excited',
-  'neutral': 'calm'
-};
+// The mood mapping reads the sentiment of this many latest messages
+const MOOD_MESSAGE_WINDOW = 3;
+
+interface TurnOptions {
+  source?: 'voice' | 'text';
+  muteVoice?: boolean; // show the reply as text without speaking it
+}
 
 export default function ConversationPage() {
   // Use selective hooks consistently
-  const { isProcessing, isListening, isAISpeaking } = useClaraConversationState();
+  const { isProcessing, isListening, isAISpeaking, isReconnecting } = useClaraConversationState();
   const session = useClaraSessionState();
   const messages = useClaraMessages();
-  const { token, isAuthenticated } = useAuth();
+  const hasHydrated = useClaraHasHydrated();
+  const { token, isAuthenticated, user } = useAuth();
+  const interactionMode = useInteractionMode();
+  const isHoldToTalk = interactionMode === 'hold-to-talk';
+  const language = useLanguage();
+  const voiceSettings = useVoiceSettings();
+  const masterVolume = useMasterVolume();
+  const micDeviceId = useSettingsStore((state) => selectUserSettings(state).micDeviceId);
   const { isAdmin } = useAdminAuth();
-  const { addMessage, setProcessing, setUserName, setPersonality, setAISpeaking } = useClaraStore(
+  const {
+    addMessage, setProcessing, setUserName, setPersonality, setAISpeaking, interruptAISpeaking, setReconnecting,
+    startNewSession, restoreConversation, setMessageSentiment,
+  } = useClaraStore(
     useShallow((state) => ({
       addMessage: state.addMessage,
       setProcessing: state.setProcessing,
       setUserName: state.setUserName,
       setPersonality: state.setPersonality,
       setAISpeaking: state.setAISpeaking,
+      interruptAISpeaking: state.interruptAISpeaking,
+      setReconnecting: state.setReconnecting,
+      startNewSession: state.startNewSession,
+      restoreConversation: state.restoreConversation,
+      setMessageSentiment: state.setMessageSentiment,
     }))
   );
   
   const [currentMood, setCurrentMood] = useState<EmotionalMood>('happy');
   const [conversationIntensity, setConversationIntensity] = useState<'low' | 'medium' | 'high'>('low');
-  const [lastApiMoodUpdate, setLastApiMoodUpdate] = useState<number>(0);
+  const moodSource = useMoodSource();
+  const [moodArbiter] = useState(() => new MoodArbiter(moodSource, config.mood, 'happy'));
   const [heartbeatConfig] = useState<HeartbeatConfiguration>({
     enabled: true,
     audioEnabled: true,
@@ -78,41 +112,80 @@ export default function ConversationPage() {
     reducedMotion: false
   });
   const [heartbeatMuted, setHeartbeatMuted] = useState(false);
-  const speechInterfaceRef = useRef<{ handleToggle: () => void } | null>(null);
-  const moodTransitionCacheRef = useRef<Map<string, { mood: EmotionalMood; timestamp: number }>>(new Map());
+  const speechInterfaceRef = useRef<SpeechInterfaceRef | null>(null);
   const performanceMonitorRef = useRef(getPerformanceMonitor());
 
   // Initialize sentiment analysis hook
   const {
-    analyzeSentiment,
+    requestSentiment,
     getCurrentIntensityLevel
-  } = useSentimentAnalysis();
+  } = useSentimentAnalysis(language);
 
   // Streaming conversation state
   const [, setIsStreaming] = useState(false);
-  const [, setStreamingResponse] = useState('');
+  const [streamingResponse, setStreamingResponse] = useState('');
+  const [streamingEmotion, setStreamingEmotion] = useState<string | null>(null);
+  const [speakingSentence, setSpeakingSentence] = useState<string | null>(null);
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+  // How many messages the page opened onto, once the saved conversation has loaded. Only that
+  // restored history asks whether to continue — not turns taken since.
+  const [restoredCount, setRestoredCount] = useState<number | null>(null);
+  const [resumeDecided, setResumeDecided] = useState(false);
+
+  // Typed input: always offered, and the only way in where speech recognition isn't.
+  const [voiceInputSupported] = useState(isSpeechRecognitionSupported);
+  const [textReply, setTextReply] = useState<string | null>(null);
+  const [isMicSetupOpen, setIsMicSetupOpen] = useState(false);
+  // Re-arming the mic after Clara speaks only makes sense if the user was talking to begin with.
+  const lastTurnSourceRef = useRef<'voice' | 'text'>('voice');
 
   // Progressive speech state using BrowserSpeechService
   const speechServiceRef = useRef<BrowserSpeechService | null>(null);
   const firstSpeechStartRef = useRef<number | null>(null);
   const requestSentTimeRef = useRef<number | null>(null);
 
+  // Barge-in bookkeeping. Each handleTranscriptComplete is a turn; the reply's message id is
+  // only known once its stream ends, which is often before Clara has finished saying it.
+  const turnRef = useRef(0);
+  const turnMessageIdRef = useRef<string | null>(null);
+  const interruptionRef = useRef<{ turn: number; heard: string } | null>(null);
+  // The turn whose reply is still streaming. Starting another turn supersedes it; unmounting aborts it.
+  const inFlightTurnRef = useRef<{ controller: AbortController; supersede: () => void } | null>(null);
+
+  const handleBargeIn = useCallback(() => {
+    const heard = speechServiceRef.current?.interrupt() ?? '';
+    interruptionRef.current = { turn: turnRef.current, heard };
+    interruptAISpeaking(turnMessageIdRef.current, heard);
+    setSpeakingSentence(null);
+    console.log('✋ BARGE-IN after hearing:', heard || '(nothing)');
+  }, [interruptAISpeaking]);
+
+  const isEchoOfClara = useCallback((text: string) => isLikelyEcho(
+    text,
+    speechServiceRef.current?.turnText() ?? '',
+    config.speech.bargeIn.echoOverlap
+  ), []);
+
   // Stable function to auto-start listening after Clara speaks
   const autoStartListening = useCallback(() => {
     setTimeout(() => {
-      // Safety check: only start listening if Clara is truly done speaking
-      if (!isAISpeaking && speechInterfaceRef.current?.handleToggle) {
+      // Read the phase when the timer fires, not when it was set: only an idle conversation
+      // gets the mic — not one Clara is speaking in again, or one the user has typed into.
+      // Only hands-free re-arms; in the other modes the user starts every turn.
+      if (selectUserSettings(useSettingsStore.getState()).interactionMode !== 'hands-free') return;
+      if (useClaraStore.getState().phase === 'idle' && speechInterfaceRef.current?.handleToggle) {
         speechInterfaceRef.current.handleToggle();
       }
     }, config.aiSpeech.autoStartListeningDelay);
-  }, [isAISpeaking]);
+  }, []);
 
   // Initialize BrowserSpeechService with callbacks
   useEffect(() => {
     if (typeof window !== 'undefined') {
-      // Construct once. This effect re-runs whenever autoStartListening changes, i.e. on every
-      // flip of isAISpeaking — which happens mid-reply. Reconstructing there left the old
-      // instance playing its sentence while later chunks went to the new one (split-brain audio).
+      // Construct once. This effect used to re-run on every flip of isAISpeaking — which happens
+      // mid-reply — and can still re-run whenever its dependencies change. Reconstructing there
+      // left the old instance playing its sentence while later chunks went to the new one
+      // (split-brain audio).
       // Only the callbacks need re-binding; setStreamingCallbacks deliberately leaves turn state
       // alone (see 873213e) so re-binding mid-turn is safe.
       speechServiceRef.current ??= new BrowserSpeechService();
@@ -128,21 +201,88 @@ export default function ConversationPage() {
           }
 
           setAISpeaking(true);
+          setSpeakingSentence(text);
           console.log('🗣️ QUEUING SPEECH:', text);
         },
         onComplete: () => {
           setAISpeaking(false);
-          // Auto-start listening after Clara finishes speaking
-          autoStartListening();
+          setSpeakingSentence(null);
+          // Auto-start listening after Clara finishes speaking — a voice turn's reply only
+          if (lastTurnSourceRef.current === 'voice') autoStartListening();
         }
       });
     }
   }, [setAISpeaking, autoStartListening]);
 
+  useEffect(() => {
+    speechServiceRef.current?.setLanguage(language);
+  }, [language]);
+
+  useEffect(() => {
+    speechServiceRef.current?.setVoiceSettings(voiceSettings);
+  }, [voiceSettings]);
+
+  useEffect(() => {
+    if (session.selectedPersonality) speechServiceRef.current?.setPersonality(session.selectedPersonality);
+  }, [session.selectedPersonality]);
+
+  useEffect(() => {
+    getAudioGraph().setMasterVolume(masterVolume);
+  }, [masterVolume]);
+
+  useEffect(() => {
+    setCurrentMood(moodArbiter.setSource(moodSource));
+  }, [moodArbiter, moodSource]);
+
+  const getCaption = useCallback(() => speechServiceRef.current?.caption() ?? null, []);
+
+  const getAudioOutput = useCallback(() => {
+    if (!speechServiceRef.current) throw new Error('Speech is not ready yet');
+    return speechServiceRef.current.audioOutput();
+  }, []);
+
+  // The orb moves with Clara's voice while she has the floor
+  const [orbOutput, setOrbOutput] = useState<AudioNode | null>(null);
+  useEffect(() => {
+    if (!isAISpeaking) {
+      setOrbOutput(null);
+      return;
+    }
+    try {
+      setOrbOutput(getAudioOutput().output);
+    } catch {
+      setOrbOutput(null); // speech not set up yet: the orb stays with the mic
+    }
+  }, [isAISpeaking, getAudioOutput]);
+
   // Unmount only — a callback re-bind must not silence Clara mid-reply, so this cleanup
   // deliberately lives in its own dependency-free effect.
-  useEffect(() => () => speechServiceRef.current?.stopSpeaking(), []);
+  useEffect(() => () => {
+    inFlightTurnRef.current?.controller.abort();
+    speechServiceRef.current?.stopSpeaking();
+  }, []);
+
+
+  useEffect(() => {
+    if (hasHydrated && restoredCount === null) setRestoredCount(messages.length);
+  }, [hasHydrated, restoredCount, messages.length]);
 
+  // /conversation?resume=<id> from the history page. Wait for hydration, or the saved
+  // conversation would land on top of the one being reopened.
+  useEffect(() => {
+    const conversationId = new URLSearchParams(window.location.search).get('resume');
+    if (!hasHydrated || !conversationId || (!token && !DEV_AUTH_BYPASS)) return;
+
+    // The choice is made: no "continue last conversation?" over the one being reopened.
+    setResumeDecided(true);
+    window.history.replaceState(null, '', window.location.pathname); // a reload shouldn't re-fetch
+    conversationHistoryApi.getLog({ conversationId }, token)
+      .then((rows) => {
+        const restored = logRowsToMessages([...rows].reverse());
+        if (restored.length) restoreConversation(conversationId, restored);
+      })
+      .catch((error) => console.error('Failed to reopen conversation:', error));
+  }, [hasHydrated, token, restoreConversation]);
 
   // Initialize performance monitoring
   useEffect(() => {
@@ -155,66 +295,43 @@ export default function ConversationPage() {
   }, []);
 
 
-  // Visual response mapping: Update mood based on conversation intensity and sentiment
+  // Each message is analyzed once, in the sentiment worker, and its result kept on the message.
+  // Only the ones the mood mapping reads: a reopened history isn't worth a worker round trip each.
+  const sentimentRequestedRef = useRef<Set<string>>(new Set());
   useEffect(() => {
-    if (messages.length > 0) {
-      const recentMessages = messages.slice(-3); // Analyze last 3 messages
-      let totalSentimentScore = 0;
-      let positiveCount = 0;
-      let negativeCount = 0;
-
-      recentMessages.forEach(message => {
-        const sentiment = analyzeSentiment(message.content);
-        totalSentimentScore += sentiment.intensity;
-
-        if (sentiment.sentiment === 'positive') positiveCount++;
-        if (sentiment.sentiment === 'negative') negativeCount++;
-      });
-
-      const avgIntensity = totalSentimentScore / recentMessages.length;
-
-      // Map sentiment trends to mood changes (complement backend mood)
-      let suggestedMood: EmotionalMood = currentMood;
-
-      if (positiveCount > negativeCount) {
-        suggestedMood = sentimentToMoodMapping('positive', avgIntensity);
-      } else if (negativeCount > positiveCount) {
-        suggestedMood = sentimentToMoodMapping('negative', avgIntensity);
-      } else {
-        suggestedMood = sentimentToMoodMapping('neutral', avgIntensity);
-      }
-
-      // Frontend caching for smooth transitions - only suggest mood changes if no recent API update
-      const now = Date.now();
-      const timeSinceApiUpdate = now - lastApiMoodUpdate;
-      const API_PRIORITY_WINDOW = 5000; // 5 seconds
-
-      if (suggestedMood !== currentMood && timeSinceApiUpdate > API_PRIORITY_WINDOW) {
-        // Cache the frontend suggestion
-        moodTransitionCacheRef.current.set('frontend_suggestion', { mood: suggestedMood, timestamp: now });
-
-        console.log('Visual response mapping suggests mood change:', currentMood, '->', suggestedMood);
-        console.log('Time since API update:', timeSinceApiUpdate, 'ms');
+    messages.slice(-MOOD_MESSAGE_WINDOW).forEach((message) => {
+      if (message.sentiment || sentimentRequestedRef.current.has(message.id)) return;
+      sentimentRequestedRef.current.add(message.id);
+      void requestSentiment(message.content).then((sentiment) => setMessageSentiment(message.id, sentiment));
+    });
+  }, [messages, requestSentiment, setMessageSentiment]);
+
+  // Visual response mapping: the arbiter weighs the latest messages' sentiment against the
+  // backend's emotion, per the user's mood setting
+  useEffect(() => {
+    const readings = messages.slice(-MOOD_MESSAGE_WINDOW).flatMap((message) => (message.sentiment ? [message.sentiment] : []));
+    if (!readings.length) return;
+    setCurrentMood(moodArbiter.fromSentiment(readings));
 
-        // Apply frontend suggestion only if it's been stable for 2 seconds
-        const previousSuggestion = moodTransitionCacheRef.current.get('frontend_suggestion');
-        if (previousSuggestion && now - previousSuggestion.timestamp > 2000 && previousSuggestion.mood === suggestedMood) {
-          console.log('Applying stable frontend mood suggestion:', suggestedMood);
-          // Uncomment to enable frontend mood changes:
-          // setCurrentMood(suggestedMood);
-        }
-      }
-    }
-  }, [messages, analyzeSentiment, currentMood, lastApiMoodUpdate]);
+    // A suggestion only counts once it has held: look again when it could have
+    const checkAt = moodArbiter.nextCheckAt();
+    if (checkAt === null) return;
+    const timer = setTimeout(() => setCurrentMood(moodArbiter.recheck()), checkAt - Date.now());
+    return () => clearTimeout(timer);
+  }, [messages, moodArbiter, moodSource]);
 
   const voiceStatus = isListening ? 'Voice input active, listening for speech'
-    : isAISpeaking ? 'Clara is speaking'
+    : isAISpeaking ? (config.speech.bargeIn.enabled ? 'Clara is speaking, speak or tap to interrupt' : 'Clara is speaking')
+    : isReconnecting ? 'Connection lost, reconnecting to Clara'
     : isProcessing ? 'Processing your request'
+    : isHoldToTalk ? 'Voice interface ready, hold to talk'
     : 'Voice interface ready, tap to start conversation';
 
   const handleCentralCircleClick = () => {
     // We'll trigger the same logic as the SpeechInterface toggle
-    if (isAISpeaking || isProcessing) return;
+    if (isProcessing) return;
+    if (isHoldToTalk) return; // pointer down/up drive the turn
+    if (isAISpeaking && !config.speech.bargeIn.enabled) return;
 
     if (isListening) {
       // Stop listening (pause)
@@ -226,6 +343,15 @@ export default function ConversationPage() {
   };
 
   // Keyboard shortcuts for accessibility
+  const startHold = useCallback(() => {
+    if (isProcessing) return;
+    speechInterfaceRef.current?.startHold();
+  }, [isProcessing]);
+
+  const endHold = useCallback(() => {
+    speechInterfaceRef.current?.endHold();
+  }, []);
+
   const handleKeyDown = (event: React.KeyboardEvent) => {
     // Ctrl/Cmd + Space to toggle voice input
     if ((event.ctrlKey || event.metaKey) && event.key === ' ') {
@@ -242,6 +368,17 @@ export default function ConversationPage() {
   // Add keyboard event listener
   React.useEffect(() => {
     const handleGlobalKeyDown = (event: KeyboardEvent) => {
+      // Typing into the composer is not a voice shortcut
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+
+      // Hold-to-talk: the spacebar is the orb. Not on buttons, where Space is their click.
+      if (isHoldToTalk && event.key === ' ' && !event.ctrlKey && !event.metaKey && !target?.closest('button')) {
+        event.preventDefault();
+        if (!event.repeat) startHold();
+        return;
+      }
+
       // Ctrl/Cmd + Space to toggle voice input
       if ((event.ctrlKey || event.metaKey) && event.key === ' ') {
         event.preventDefault();
@@ -254,9 +391,47 @@ export default function ConversationPage() {
       }
     };
 
+    const handleGlobalKeyUp = (event: KeyboardEvent) => {
+      if (isHoldToTalk && event.key === ' ') endHold();
+    };
+
     document.addEventListener('keydown', handleGlobalKeyDown);
-    return () => document.removeEventListener('keydown', handleGlobalKeyDown);
-  }, [isListening, isAISpeaking, isProcessing, handleCentralCircleClick]);
+    document.addEventListener('keyup', handleGlobalKeyUp);
+    return () => {
+      document.removeEventListener('keydown', handleGlobalKeyDown);
+      document.removeEventListener('keyup', handleGlobalKeyUp);
+    };
+  }, [isListening, isAISpeaking, isProcessing, isHoldToTalk, handleCentralCircleClick, startHold, endHold]);
+
+  // Settings are kept per signed-in user
+  useEffect(() => {
+    useSettingsStore.getState().setActiveUser(user?.sub);
+  }, [user?.sub]);
+
+  useEffect(() => {
+    void getMicManager().setDevice(micDeviceId).catch(() => { /* the manager's state says why */ });
+  }, [micDeviceId]);
+
+  // Mic setup opens by itself twice: on a first visit the browser hasn't been asked yet (or has
+  // blocked us), and whenever the mic newly fails.
+  useEffect(() => {
+    if (!voiceInputSupported) return;
+    const manager = getMicManager();
+    void manager.checkPermission().then((permission) => {
+      const { micOnboarded } = selectUserSettings(useSettingsStore.getState());
+      if (!micOnboarded && (permission === 'prompt' || permission === 'denied')) setIsMicSetupOpen(true);
+    });
+    let lastProblem = manager.getState().problem;
+    return manager.onChange(({ problem }) => {
+      if (problem && problem !== lastProblem) setIsMicSetupOpen(true);
+      lastProblem = problem;
+    });
+  }, [voiceInputSupported]);
+
+  const handleMicSetupClose = useCallback(() => {
+    setIsMicSetupOpen(false);
+    useSettingsStore.getState().updateSettings({ micOnboarded: true });
+  }, []);
 
   useEffect(() => {
     // Initialize session if needed
@@ -268,9 +443,46 @@ export default function ConversationPage() {
     }
   }, [session.userName, session.selectedPersonality, setUserName, setPersonality]);
 
-  const handleTranscriptComplete = async (transcript: string) => {
+  const handleTranscriptComplete = async (transcript: string, options: TurnOptions = {}) => {
     if (!transcript.trim()) return;
 
+    const { source = 'voice', muteVoice = false } = options;
+    lastTurnSourceRef.current = source;
+    setTextReply(muteVoice ? '' : null);
+
+    const turn = ++turnRef.current;
+    turnMessageIdRef.current = null;
+    const controller = new AbortController();
+    const wasInterrupted = () => interruptionRef.current?.turn === turn;
+    // A muted turn still streams and logs like any other; it just never reaches the voice.
+    const speaks = () => !muteVoice && !wasInterrupted() && !controller.signal.aborted;
+
+    let accumulatedResponse = '';  // This will store the filtered message content only
+    let turnEmotion: string | null = null;
+    const replyMessage = (content: string) => {
+      const interruption = wasInterrupted() ? interruptionRef.current : null;
+      return {
+        id: `assistant-${Date.now()}`,
+        role: 'assistant' as const,
+        content,
+        timestamp: new Date(),
+        ...(turnEmotion ? { emotion: turnEmotion } : {}),
+        ...(interruption ? { interrupted: true, heardContent: interruption.heard } : {}),
+      };
+    };
+
+    // One stream at a time: the previous reply stops where it is and stays in the history,
+    // flagged, ahead of the message that cut it off.
+    inFlightTurnRef.current?.supersede();
+    const inFlight = {
+      controller,
+      supersede: () => {
+        controller.abort();
+        if (accumulatedResponse) addMessage({ ...replyMessage(accumulatedResponse), superseded: true });
+      },
+    };
+    inFlightTurnRef.current = inFlight;
+
     // Reset timing tracking for new conversation
     requestSentTimeRef.current = performance.now();
     firstSpeechStartRef.current = null;
@@ -279,16 +491,18 @@ export default function ConversationPage() {
     setProcessing(true);
     setIsStreaming(true);
     setStreamingResponse('');
+    setStreamingEmotion(null);
+    setSpeakingSentence(null);
 
     // Clear any existing speech for new conversation
     firstSpeechStartRef.current = null;
     requestSentTimeRef.current = performance.now();
 
-    // Reset speaking state before stopping speech to ensure clean state
+    // Reset speaking state before stopping speech to ensure clean state. interrupt() rather than
+    // stopSpeaking(): ending the old speech turn would fire its onComplete and re-arm the mic
+    // while this one is in flight, and the next chunk must open a fresh turn.
     setAISpeaking(false);
-    if (speechServiceRef.current) {
-      speechServiceRef.current.stopSpeaking();
-    }
+    speechServiceRef.current?.interrupt();
 
     // Add user message to chat
     const userMessage = {
@@ -296,11 +510,12 @@ export default function ConversationPage() {
       role: 'user' as const,
       content: transcript,
       timestamp: new Date(),
+      source,
     };
     addMessage(userMessage);
 
-    // Perform real-time sentiment analysis on user input
-    analyzeSentiment(transcript);
+    // Tell the backend when its last reply was cut off, and how much of it the user heard
+    const lastReply = [...messages].reverse().find((m) => m.role === 'assistant');
 
     // Update conversation intensity based on user input
     const currentMessages = [...messages, userMessage];
@@ -319,129 +534,106 @@ export default function ConversationPage() {
       speechServiceRef.current?.setEmotion('calm');
 
       // Use Clara's streaming endpoint
-      const response = await fetch('/api/backend/clara/conversation/stream', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({
-          message: transcript,
-          session_id: session.sessionId,
-          personality: session.selectedPersonality,
-        }),
-      });
-
-      if (!response.ok) {
-        if (response.status === 401 || response.status === 403) {
-          throw new Error('Authentication failed. Please log in again.');
-        }
-        throw new Error(`API error: ${response.status}`);
-      }
+      const request: ClaraStreamRequest = {
+        message: transcript,
+        session_id: session.sessionId,
+        personality: session.selectedPersonality,
+        language,
+        ...(session.conversationId ? { conversation_id: session.conversationId } : {}),
+        ...(lastReply?.interrupted ? {
+          previous_reply_interrupted: true,
+          previous_reply_heard: lastReply.heardContent ?? '',
+        } : {}),
+      };
 
-      // Handle streaming response with proper SSE parsing for Clara's format
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-      let accumulatedResponse = '';  // This will store the filtered message content only
       let accumulatedJson = '';  // This will store the raw JSON for parsing emotion
-      let finalData: any = null;
+      let finalData: ClaraResponseData | null = null;
       const streamStartTime = performance.now();
       let firstChunkReceived = false;
       let firstChunkTime: number | null = null;
       let lastChunkTime: number | null = null;
       let previousResponseLength = 0;  // Track previous length to detect new content
 
-      while (reader) {
-        const { done, value } = await reader.read();
+      const stream = claraStreamClient.streamWithRetry(request, {
+        token,
+        signal: controller.signal,
+        onReconnecting: (attempt, resuming, error) => {
+          console.warn(`🔌 Stream dropped (${resuming ? 'resuming' : 'retrying'}, attempt ${attempt}):`, error);
+          setReconnecting(true);
+        },
+        onReconnected: () => setReconnecting(false),
+      });
+
+      for await (const event of stream) {
+        if (event.type === 'unknown') continue;
+
+        // context_ready carries the turn's emotion and lands before the first chunk,
+        // so the voice server gets it in time to colour the opening sentence.
+        // The visuals move with the voice: colour the backdrop/orb now, not at end of stream.
+        if (event.type !== 'simulation_context' && event.data.conversation_emotion) {
+          const emotion = event.data.conversation_emotion;
+          turnEmotion = emotion;
+          speechServiceRef.current?.setEmotion(emotion);
+          setStreamingEmotion(emotion);
+          setCurrentMood(moodArbiter.fromBackend(emotion));
+        }
+
+        // Handle consciousness chunks for progressive display and speech
+        if (event.type === 'chunk' && event.data.chunk) {
+          // Track first chunk timing
+          if (!firstChunkReceived) {
+            firstChunkReceived = true;
+            firstChunkTime = performance.now();
+            console.log(`⚡ FIRST CHUNK RECEIVED at ${(firstChunkTime - streamStartTime).toFixed(0)}ms after request sent`);
+          }
 
-        if (done) break;
+          // Track last chunk timing
+          lastChunkTime = performance.now();
 
-        // Decode the chunk and add to buffer
-        buffer += decoder.decode(value, { stream: true });
+          // Accumulate the raw stream and re-derive the spoken text from it
+          accumulatedJson += event.data.chunk;
+          accumulatedResponse = spokenTextSoFar(accumulatedJson);
 
-        // Process complete SSE messages
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep incomplete line in buffer
+          setStreamingResponse(accumulatedResponse);
+          if (muteVoice) setTextReply(accumulatedResponse);
 
-        for (const line of lines) {
-          if (line.startsWith('event: ')) {
-            // Skip event type line
-            continue;
+          // Stream only NEW content to BrowserSpeechService for processing — unless the
+          // user already cut this reply off; the rest of it is for the transcript only.
+          if (speechServiceRef.current && speaks() && accumulatedResponse.length > previousResponseLength) {
+            const newContent = accumulatedResponse.substring(previousResponseLength);
+            speechServiceRef.current.queueStreamingChunk(newContent);
+            previousResponseLength = accumulatedResponse.length;
           }
+        }
+
+        // Handle complete response
+        if (event.type === 'response' && event.data.response) {
+          const completeTime = performance.now();
+          const totalStreamTime = completeTime - streamStartTime;
 
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') break;
-
-            try {
-              const eventData = JSON.parse(data);
-
-              // context_ready carries the turn's emotion and lands before the first chunk,
-              // so the voice server gets it in time to colour the opening sentence.
-              // The visuals move with the voice: colour the backdrop/orb now, not at end of stream.
-              if (eventData.conversation_emotion) {
-                speechServiceRef.current?.setEmotion(eventData.conversation_emotion);
-                setCurrentMood(EMOTION_MOOD[eventData.conversation_emotion] || 'calm');
-                setLastApiMoodUpdate(Date.now());
-              }
-
-              // Handle consciousness chunks for progressive display and speech
-              if (eventData.chunk) {
-                // Track first chunk timing
-                if (!firstChunkReceived) {
-                  firstChunkReceived = true;
-                  firstChunkTime = performance.now();
-                  console.log(`⚡ FIRST CHUNK RECEIVED at ${(firstChunkTime - streamStartTime).toFixed(0)}ms after request sent`);
-                }
-
-                // Track last chunk timing
-                lastChunkTime = performance.now();
-
-                // Accumulate the raw stream and re-derive the spoken text from it
-                accumulatedJson += eventData.chunk;
-                accumulatedResponse = spokenTextSoFar(accumulatedJson);
-
-                setStreamingResponse(accumulatedResponse);
-
-                // Stream only NEW content to BrowserSpeechService for processing
-                if (speechServiceRef.current && accumulatedResponse.length > previousResponseLength) {
-                  const newContent = accumulatedResponse.substring(previousResponseLength);
-                  speechServiceRef.current.queueStreamingChunk(newContent);
-                  previousResponseLength = accumulatedResponse.length;
-                }
-              }
-
-              // Handle complete response
-              if (eventData.response) {
-                const completeTime = performance.now();
-                const totalStreamTime = completeTime - streamStartTime;
-
-                console.log(`✅ COMPLETE RESPONSE received`);
-                if (lastChunkTime !== null) {
-                  console.log(`⏱️  LAST CHUNK was at ${(lastChunkTime - streamStartTime).toFixed(0)}ms after request`);
-                }
-                console.log(`⏱️  TOTAL STREAM TIME: ${totalStreamTime.toFixed(0)}ms`);
-
-                finalData = eventData;
-
-                // Extract emotion from simulation_context
-                if (eventData.simulation_context?.conversation_emotion) {
-                  const backendEmotion = eventData.simulation_context.conversation_emotion;
-
-                  // Usually the same value context_ready already applied; the model can
-                  // name a different emotion in its JSON, so take the final word here.
-                  const mappedMood = EMOTION_MOOD[backendEmotion] || 'calm';
-
-                  console.log(`🎭 Emotion from API: ${backendEmotion} → ${mappedMood}`);
-                  setCurrentMood(mappedMood);
-                  setLastApiMoodUpdate(Date.now());
-                }
-              }
-            } catch (e) {
-              console.error('Error parsing SSE data:', e);
-            }
+          console.log(`✅ COMPLETE RESPONSE received`);
+          if (lastChunkTime !== null) {
+            console.log(`⏱️  LAST CHUNK was at ${(lastChunkTime - streamStartTime).toFixed(0)}ms after request`);
           }
+          console.log(`⏱️  TOTAL STREAM TIME: ${totalStreamTime.toFixed(0)}ms`);
+
+          finalData = event.data;
+        }
+
+        // Extract emotion from simulation_context
+        const context = event.type === 'response' ? event.data.simulation_context
+          : event.type === 'simulation_context' ? event.data
+          : undefined;
+        if (context?.conversation_emotion) {
+          const backendEmotion = context.conversation_emotion;
+          turnEmotion = backendEmotion;
+
+          // Usually the same value context_ready already applied; the model can
+          // name a different emotion in its JSON, so take the final word here.
+          const mood = moodArbiter.fromBackend(backendEmotion);
+
+          console.log(`🎭 Emotion from API: ${backendEmotion} → ${mood}`);
+          setCurrentMood(mood);
         }
       }
 
@@ -449,41 +641,71 @@ export default function ConversationPage() {
       const finalResponse = finalData?.response || accumulatedResponse || 'Sorry, I didn\'t get a response.';
 
       // Add Clara's response to chat
-      const assistantMessage = {
-        id: `assistant-${Date.now()}`,
-        role: 'assistant' as const,
-        content: finalResponse,
-        timestamp: new Date(),
-      };
+      const assistantMessage = replyMessage(finalResponse);
       addMessage(assistantMessage);
+      if (turn === turnRef.current) turnMessageIdRef.current = assistantMessage.id;
+      if (muteVoice) setTextReply(finalResponse);
 
       // Backstop: a stream shape the extractor can't read would show the reply in the
       // transcript and never speak it. Speak the authoritative final text instead.
-      if (previousResponseLength === 0 && finalData?.response) {
+      if (previousResponseLength === 0 && finalData?.response && speaks()) {
         console.warn('Speech: extracted nothing from the stream — speaking the final response instead.');
         speechServiceRef.current?.queueStreamingChunk(finalData.response);
       }
 
     } catch (error) {
+      // Superseded or unmounted — whoever aborted has already dealt with the partial reply.
+      if (controller.signal.aborted) return;
       console.error('Conversation API error:', error);
 
+      // Out of retries partway through: keep what Clara already said rather than throw it away.
+      if (accumulatedResponse) addMessage(replyMessage(accumulatedResponse));
+
       // Add error message
       const errorMessage = {
         id: `error-${Date.now()}`,
         role: 'assistant' as const,
-        content: 'Sorry, I\'m having trouble responding right now. Please try again.',
+        content: accumulatedResponse
+          ? 'Sorry, I lost the connection partway through. Please try again.'
+          : 'Sorry, I\'m having trouble responding right now. Please try again.',
         timestamp: new Date(),
       };
       addMessage(errorMessage);
+      if (muteVoice) setTextReply(errorMessage.content);
     } finally {
-      // Every exit path flushes — an aborted stream should still speak what it buffered.
-      speechServiceRef.current?.flushStreamingBuffer();
-      setProcessing(false);
-      setIsStreaming(false);
-      setStreamingResponse('');
+      if (inFlightTurnRef.current === inFlight) inFlightTurnRef.current = null;
+      // A cancelled turn leaves the speech queue and streaming state to whatever replaced it.
+      if (!controller.signal.aborted) {
+        // Every other exit path flushes — a failed stream should still speak what it buffered.
+        // Not an interrupted one: interrupt() already ended the turn, and a flush would end it
+        // again, firing the auto-restart over the user who is now talking. Nor a muted one,
+        // which never started a spoken turn to end.
+        if (speaks()) speechServiceRef.current?.flushStreamingBuffer();
+        setProcessing(false);
+        setIsStreaming(false);
+        setStreamingResponse('');
+        setStreamingEmotion(null);
+      }
     }
   };
 
+  // Drop the current conversation, mid-reply or not, and open a fresh backend session.
+  const handleStartNewSession = () => {
+    inFlightTurnRef.current?.controller.abort();
+    speechServiceRef.current?.interrupt();
+    setIsStreaming(false);
+    setStreamingResponse('');
+    setStreamingEmotion(null);
+    setSpeakingSentence(null);
+    setTextReply(null);
+    startNewSession();
+    setResumeDecided(true);
+  };
+
+  const handleComposerSend = (text: string, { muteVoice }: ComposerSendOptions) => {
+    void handleTranscriptComplete(text, { source: 'text', muteVoice });
+  };
+
 
   return (
     <div className="relative min-h-screen flex flex-col" onKeyDown={handleKeyDown} tabIndex={-1}>
@@ -497,14 +719,14 @@ export default function ConversationPage() {
 
       {/* Accessibility: Keyboard shortcuts help */}
       <div className="sr-only" aria-live="polite" id="keyboard-shortcuts">
-        Voice interaction shortcuts: Ctrl+Space to toggle voice input, Escape to stop listening
+        Voice interaction shortcuts: {isHoldToTalk ? 'hold Space to talk, release to send' : 'Ctrl+Space to toggle voice input'}, Escape to stop listening
       </div>
 
       {/* Dynamic Emotional Backdrop */}
       <EmotionalBackdrop key={`backdrop-${currentMood}`} mood={currentMood} />
 
 
-      {/* Heartbeat Audio - plays when "Tap to Listen" is visible */}
+      {/* Heartbeat Audio - ducks under the conversation, full when "Tap to Talk" is showing */}
       {heartbeatConfig.enabled && heartbeatConfig.audioEnabled && (
         <HeartbeatAudio
           mood={currentMood}
@@ -567,7 +789,42 @@ export default function ConversationPage() {
               )}
             </div>
             
-            <div className="flex-shrink-0">
+            <div className="flex items-center gap-3 flex-shrink-0">
+              <Link
+                href="/history"
+                className="flex items-center gap-2 px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-all duration-200 border border-white/20 hover:border-white/30"
+                style={{ color: HEARTBEAT_BPM_CONFIGS[currentMood].color }}
+              >
+                <History className="w-4 h-4" aria-hidden="true" />
+                <span className="text-sm font-medium">History</span>
+              </Link>
+              <button
+                type="button"
+                onClick={handleStartNewSession}
+                disabled={messages.length === 0}
+                className="flex items-center gap-2 px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-all duration-200 border border-white/20 hover:border-white/30 disabled:opacity-40 disabled:cursor-not-allowed"
+                style={{ color: HEARTBEAT_BPM_CONFIGS[currentMood].color }}
+              >
+                <MessageSquarePlus className="w-4 h-4" aria-hidden="true" />
+                <span className="text-sm font-medium">New conversation</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsTranscriptOpen((open) => !open)}
+                className="flex items-center gap-2 px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-all duration-200 border border-white/20 hover:border-white/30"
+                style={{ color: HEARTBEAT_BPM_CONFIGS[currentMood].color }}
+                aria-expanded={isTranscriptOpen}
+                aria-controls="conversation-transcript"
+              >
+                <MessageSquareText className="w-4 h-4" aria-hidden="true" />
+                <span className="text-sm font-medium">Transcript</span>
+              </button>
+              <RecordingControls
+                getAudioOutput={getAudioOutput}
+                messages={messages}
+                moodColor={HEARTBEAT_BPM_CONFIGS[currentMood].color}
+              />
+              <ConversationSettings moodColor={HEARTBEAT_BPM_CONFIGS[currentMood].color} />
               <Auth moodColor={HEARTBEAT_BPM_CONFIGS[currentMood].color} />
             </div>
           </div>
@@ -591,6 +848,12 @@ export default function ConversationPage() {
               data-testid="central-circle"
               className="relative w-[min(80vw,460px)] aspect-square rounded-full flex items-center justify-center transition-opacity focus:outline-none focus:ring-4 focus:ring-white/30 disabled:opacity-50 disabled:cursor-not-allowed"
               onClick={handleCentralCircleClick}
+              {...(isHoldToTalk && {
+                onPointerDown: startHold,
+                onPointerUp: endHold,
+                onPointerCancel: endHold,
+                onPointerLeave: endHold,
+              })}
               disabled={isProcessing}
               aria-describedby="voice-status"
               aria-label={voiceStatus}
@@ -599,6 +862,7 @@ export default function ConversationPage() {
                 className="absolute inset-0"
                 hue={MOOD_HUE[currentMood]}
                 enableVoiceControl={isListening}
+                outputSource={orbOutput}
               />
               <span
                 className="relative text-lg font-semibold px-6 py-3 rounded-full border-2 bg-white/50 backdrop-blur-sm"
@@ -610,7 +874,9 @@ export default function ConversationPage() {
               >
                 {isListening ? 'Listening...' :
                  isAISpeaking ? 'Clara Speaking...' :
+                 isReconnecting ? 'Reconnecting...' :
                  isProcessing ? 'Thinking...' :
+                 isHoldToTalk ? 'Hold to Talk' :
                  'Tap to Talk'}
               </span>
             </button>
@@ -618,12 +884,54 @@ export default function ConversationPage() {
 
           {/* Hidden instructions for screen readers */}
           <div className="sr-only" id="voice-instructions">
-            Use the central circle to start voice interaction. Press Ctrl+Space or use the interface controls.
-            Current status: {isListening ? 'listening' : isAISpeaking ? 'Clara speaking' : isProcessing ? 'processing' : 'ready'}
+            {isHoldToTalk
+              ? 'Hold the central circle or the Space key while you speak, and release to send.'
+              : 'Use the central circle to start voice interaction. Press Ctrl+Space or use the interface controls.'}
+            Current status: {isListening ? 'listening' : isAISpeaking ? 'Clara speaking' : isReconnecting ? 'reconnecting' : isProcessing ? 'processing' : 'ready'}
             Heartbeat audio is {(!isListening && !isAISpeaking && !isProcessing) ? 'playing' : 'paused'} to indicate Clara is alive and responsive.
           </div>
         </main>
 
+        {/* Transcript drawer - history plus the reply streaming in */}
+        <div id="conversation-transcript">
+          <ConversationTranscript
+            messages={messages}
+            streamingText={streamingResponse}
+            streamingEmotion={streamingEmotion}
+            speakingSentence={speakingSentence}
+            isAISpeaking={isAISpeaking}
+            isOpen={isTranscriptOpen}
+            onClose={() => setIsTranscriptOpen(false)}
+            moodColor={HEARTBEAT_BPM_CONFIGS[currentMood].color}
+          />
+        </div>
+
+        {/* Restored history - carry on, or start over */}
+        {!!restoredCount && !resumeDecided && (
+          <ContinueConversationPrompt
+            messageCount={restoredCount}
+            lastMessageAt={messages[messages.length - 1]?.timestamp ?? null}
+            moodColor={HEARTBEAT_BPM_CONFIGS[currentMood].color}
+            onContinue={() => setResumeDecided(true)}
+            onStartNew={handleStartNewSession}
+          />
+        )}
+
+        {/* Mic permission and device - first visit, or when the mic fails */}
+        {isMicSetupOpen && !(restoredCount && !resumeDecided) && (
+          <MicSetupDialog moodColor={HEARTBEAT_BPM_CONFIGS[currentMood].color} onClose={handleMicSetupClose} />
+        )}
+
+        {/* Keyboard input - feeds the same pipeline as voice */}
+        <ConversationComposer
+          onSend={handleComposerSend}
+          disabled={isProcessing}
+          moodColor={HEARTBEAT_BPM_CONFIGS[currentMood].color}
+          defaultOpen={!voiceInputSupported}
+          notice={voiceInputSupported ? null : "Voice input isn't available in this browser — type to Clara instead."}
+          reply={textReply}
+        />
+
         {/* Hidden Voice Interface - provides functionality only */}
         <div className="sr-only" aria-hidden="true">
           <SpeechInterface
@@ -631,8 +939,19 @@ export default function ConversationPage() {
             onTranscriptComplete={handleTranscriptComplete}
             disabled={isProcessing}
             hidden={true}
+            bargeIn={config.speech.bargeIn.enabled}
+            isLikelyEcho={isEchoOfClara}
+            onBargeIn={handleBargeIn}
+            interactionMode={interactionMode}
+            language={language}
+            voiceSettings={voiceSettings}
           />
         </div>
+
+        {/* Captions - what Clara is saying, in time with her voice */}
+        <LiveCaptions getCaption={getCaption} active={isAISpeaking} />
+
+        {config.speech.vad.debugMeter && <VadMeter />}
       </div>
     </div>
   );
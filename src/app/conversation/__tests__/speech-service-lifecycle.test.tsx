@@ -15,6 +15,10 @@ jest.mock('@/lib/speech', () => ({
     queueStreamingChunk = jest.fn()
     flushStreamingBuffer = jest.fn()
     setEmotion = jest.fn()
+    setLanguage = jest.fn()
+    setVoiceSettings = jest.fn()
+    setPersonality = jest.fn()
+    caption = jest.fn(() => null)
   },
 }))
 
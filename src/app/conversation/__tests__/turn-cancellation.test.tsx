@@ -0,0 +1,107 @@
+import React from 'react'
+import { fireEvent, waitFor } from '@testing-library/react'
+import { render } from '../../../__tests__/test-utils'
+
+const queueStreamingChunk = jest.fn()
+const flushStreamingBuffer = jest.fn()
+
+jest.mock('@/lib/speech', () => ({
+  ...jest.requireActual('@/lib/speech'),
+  BrowserSpeechService: class {
+    setStreamingCallbacks = jest.fn()
+    stopSpeaking = jest.fn()
+    interrupt = jest.fn(() => '')
+    queueStreamingChunk = queueStreamingChunk
+    flushStreamingBuffer = flushStreamingBuffer
+    setEmotion = jest.fn()
+    setLanguage = jest.fn()
+    setVoiceSettings = jest.fn()
+    setPersonality = jest.fn()
+    caption = jest.fn(() => null)
+  },
+}))
+
+jest.mock('@/services/clara-stream-client', () => ({
+  claraStreamClient: { streamWithRetry: jest.fn() },
+}))
+
+jest.mock('@/components/shared/AuthProvider', () => ({
+  useAuth: () => ({ token: null, isAuthenticated: true }),
+  DEV_AUTH_BYPASS: true,
+}))
+
+jest.mock('@/hooks/useAdminAuth', () => ({
+  useAdminAuth: () => ({ isAdmin: false }),
+}))
+
+import ConversationPage from '../ConversationPageClient'
+
+const stream = jest.requireMock('@/services/clara-stream-client').claraStreamClient.streamWithRetry as jest.Mock
+const useClaraStore = jest.requireMock('@/store/claraStore').useClaraStore as jest.Mock
+
+const untilAborted = (signal: AbortSignal) =>
+  new Promise<never>((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)))
+
+describe('conversation turn cancellation', () => {
+  const addMessage = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    useClaraStore.mockReturnValue({
+      addMessage,
+      setProcessing: jest.fn(),
+      setUserName: jest.fn(),
+      setPersonality: jest.fn(),
+      setAISpeaking: jest.fn(),
+      interruptAISpeaking: jest.fn(),
+      setReconnecting: jest.fn(),
+    })
+  })
+
+  it('aborts the streaming turn when a new one starts and keeps its partial reply as superseded', async () => {
+    let firstSignal: AbortSignal | undefined
+    stream.mockImplementationOnce(async function* (_request, { signal }) {
+      firstSignal = signal
+      yield { type: 'chunk', data: { chunk: 'Well, let me think about' } }
+      await untilAborted(signal)
+    })
+    stream.mockImplementationOnce(async function* () {
+      yield { type: 'response', data: { response: 'Sure.' } }
+    })
+
+    const { getByTestId } = render(<ConversationPage />)
+    fireEvent.click(getByTestId('speech-toggle'))
+    await waitFor(() => expect(queueStreamingChunk).toHaveBeenCalledWith('Well, let me think about'))
+
+    fireEvent.click(getByTestId('speech-toggle'))
+    expect(firstSignal?.aborted).toBe(true)
+
+    await waitFor(() => expect(addMessage).toHaveBeenCalledWith(expect.objectContaining({ content: 'Sure.' })))
+    const added = addMessage.mock.calls.map(([message]) => message)
+    expect(added.map((m) => [m.role, m.content, m.superseded ?? false])).toEqual([
+      ['user', 'Test transcript', false],
+      ['assistant', 'Well, let me think about', true], // ahead of the message that cut it off
+      ['user', 'Test transcript', false],
+      ['assistant', 'Sure.', false],
+    ])
+    // No error reply for the cancelled turn, and only the live turn flushed the speech queue
+    expect(flushStreamingBuffer).toHaveBeenCalledTimes(1)
+  })
+
+  it('aborts the streaming turn on unmount', async () => {
+    let signal: AbortSignal | undefined
+    stream.mockImplementationOnce(async function* (_request, options) {
+      signal = options.signal
+      await untilAborted(options.signal)
+    })
+
+    const { getByTestId, unmount } = render(<ConversationPage />)
+    fireEvent.click(getByTestId('speech-toggle'))
+    await waitFor(() => expect(signal).toBeDefined())
+
+    unmount()
+    expect(signal?.aborted).toBe(true)
+    await Promise.resolve()
+    expect(addMessage).toHaveBeenCalledTimes(1) // just the user's message — no error reply
+  })
+})
@@ -0,0 +1,141 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, ChevronDown, MessageCircle, Search } from 'lucide-react';
+import { EmotionChip } from '@/components/clara/EmotionChip';
+import { useConversationHistory } from '@/hooks/useConversationHistory';
+import { type ConversationSummary } from '@/types/conversation';
+import { dateGroupLabel, searchConversations } from '@/utils/conversation-history';
+
+const preview = (conversation: ConversationSummary) =>
+  conversation.turns.find((turn) => turn.role === 'user')?.content ?? conversation.turns[0]?.content ?? '';
+
+const ConversationCard = ({ conversation }: { conversation: ConversationSummary }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const detailsId = `conversation-${conversation.conversationId}`;
+
+  return (
+    <li className="rounded-xl bg-white p-4 shadow-sm ring-1 ring-gray-100">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex w-full items-start justify-between gap-3 text-left"
+        aria-expanded={isOpen}
+        aria-controls={detailsId}
+      >
+        <div className="min-w-0">
+          <div className="mb-1 flex flex-wrap items-center gap-2 text-xs text-gray-400">
+            <span>{conversation.lastActivityAt?.toLocaleString() ?? '—'}</span>
+            <span>· {conversation.turns.length} turns</span>
+            {conversation.emotions.map((emotion) => <EmotionChip key={emotion} emotion={emotion} />)}
+          </div>
+          <p className="truncate text-sm text-gray-800">{preview(conversation)}</p>
+        </div>
+        <ChevronDown className={`h-5 w-5 shrink-0 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div id={detailsId} className="mt-4 space-y-2 border-t border-gray-100 pt-4">
+          {conversation.turns.map((turn) => (
+            <div key={turn.id} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <p
+                className={`max-w-[85%] whitespace-pre-wrap rounded-2xl px-3 py-2 text-sm ${
+                  turn.role === 'user' ? 'bg-sky-100 text-sky-900' : 'bg-rose-50 text-gray-800'
+                }`}
+              >
+                {turn.content}
+              </p>
+            </div>
+          ))}
+          <div className="flex justify-end pt-2">
+            <Link
+              href={`/conversation?resume=${encodeURIComponent(conversation.conversationId)}`}
+              className="flex items-center gap-2 rounded-full bg-rose-500 px-4 py-2 text-sm font-medium text-white hover:bg-rose-600"
+            >
+              <MessageCircle className="h-4 w-4" aria-hidden="true" />
+              Continue this conversation
+            </Link>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+};
+
+export default function HistoryPage() {
+  const { status, conversations, isLoading, error, refresh } = useConversationHistory();
+  const [query, setQuery] = useState('');
+
+  // Most recently active first, so each date heading is contiguous
+  const groups = useMemo(() => {
+    const byLabel = new Map<string, ConversationSummary[]>();
+    for (const conversation of searchConversations(conversations, query)) {
+      const label = dateGroupLabel(conversation.lastActivityAt);
+      byLabel.set(label, [...(byLabel.get(label) ?? []), conversation]);
+    }
+    return [...byLabel.entries()];
+  }, [conversations, query]);
+
+  return (
+    <div className="min-h-screen bg-rose-50/40 p-8">
+      <div className="mx-auto max-w-3xl">
+        <div className="mb-6 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Link href="/conversation" className="rounded-full p-2 text-gray-500 hover:bg-white" aria-label="Back to Clara">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <h1 className="text-2xl font-semibold text-gray-800">Your conversations</h1>
+          </div>
+          <button
+            onClick={refresh}
+            disabled={isLoading || status === 'signed-out'}
+            className="rounded-full bg-white px-4 py-2 text-sm text-gray-700 shadow-sm ring-1 ring-gray-200 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isLoading ? 'Loading…' : 'Refresh'}
+          </button>
+        </div>
+
+        <label className="mb-6 flex items-center gap-2 rounded-full bg-white px-4 py-2 shadow-sm ring-1 ring-gray-200">
+          <Search className="h-4 w-4 text-gray-400" aria-hidden="true" />
+          <span className="sr-only">Search conversations</span>
+          <input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search what you or Clara said…"
+            className="flex-1 bg-transparent text-sm text-gray-800 placeholder:text-gray-400 focus:outline-none"
+          />
+        </label>
+
+        {status === 'signed-out' && (
+          <p className="text-sm text-gray-500">
+            <a href="/auth/login" className="font-medium text-rose-600 hover:underline">Log in</a> to see your conversations.
+          </p>
+        )}
+        {status === 'loading' && groups.length === 0 && (
+          <div className="flex justify-center py-12" role="status" aria-label="Loading conversations">
+            <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-rose-400" />
+          </div>
+        )}
+        {error && <p className="mb-4 text-sm text-red-600">Failed to load: {error}</p>}
+        {status === 'ready' && groups.length === 0 && (
+          <p className="text-sm text-gray-500">
+            {query.trim() ? 'No conversations match your search.' : 'No conversations yet.'}
+          </p>
+        )}
+
+        {groups.map(([label, items]) => (
+          <section key={label} className="mb-8" aria-label={label}>
+            <h2 className="mb-2 text-xs font-medium uppercase tracking-wide text-gray-400">{label}</h2>
+            <ul className="space-y-2">
+              {items.map((conversation) => (
+                <ConversationCard key={conversation.conversationId} conversation={conversation} />
+              ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ContinueConversationPrompt } from './ContinueConversationPrompt';
+
+describe('ContinueConversationPrompt', () => {
+  it('summarises the restored conversation and offers both choices', () => {
+    const onContinue = jest.fn();
+    const onStartNew = jest.fn();
+    render(
+      <ContinueConversationPrompt
+        messageCount={12}
+        lastMessageAt={new Date(Date.now() - 5 * 60000)}
+        moodColor="#000"
+        onContinue={onContinue}
+        onStartNew={onStartNew}
+      />
+    );
+
+    expect(screen.getByRole('dialog', { name: 'Continue your last conversation?' })).toBeInTheDocument();
+    expect(screen.getByText(/12 messages, last one 5 min ago/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Continue' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Start a new conversation' }));
+    expect(onContinue).toHaveBeenCalledTimes(1);
+    expect(onStartNew).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,67 @@
+'use client';
+
+import { History, Sparkles } from 'lucide-react';
+
+interface ContinueConversationPromptProps {
+  messageCount: number;
+  lastMessageAt: Date | null;
+  moodColor: string;
+  onContinue: () => void;
+  onStartNew: () => void;
+}
+
+const formatWhen = (date: Date) => {
+  const minutes = Math.round((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} h ago`;
+  return date.toLocaleDateString();
+};
+
+// Shown when /conversation opens onto a restored history: pick up where you left off, or start
+// a fresh session with Clara.
+export const ContinueConversationPrompt = ({
+  messageCount,
+  lastMessageAt,
+  moodColor,
+  onContinue,
+  onStartNew,
+}: ContinueConversationPromptProps) => (
+  <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/20 backdrop-blur-sm p-4">
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="continue-conversation-title"
+      className="w-full max-w-sm rounded-3xl bg-white/90 p-6 shadow-xl"
+    >
+      <h2 id="continue-conversation-title" className="text-lg font-semibold" style={{ color: moodColor }}>
+        Continue your last conversation?
+      </h2>
+      <p className="mt-2 text-sm text-gray-600">
+        {messageCount} {messageCount === 1 ? 'message' : 'messages'}
+        {lastMessageAt && `, last one ${formatWhen(lastMessageAt)}`}.
+      </p>
+
+      <div className="mt-5 flex flex-col gap-2">
+        <button
+          type="button"
+          onClick={onContinue}
+          autoFocus
+          className="flex items-center justify-center gap-2 rounded-full px-4 py-2 font-medium text-white"
+          style={{ backgroundColor: moodColor }}
+        >
+          <History className="h-4 w-4" aria-hidden="true" />
+          Continue
+        </button>
+        <button
+          type="button"
+          onClick={onStartNew}
+          className="flex items-center justify-center gap-2 rounded-full border border-gray-300 px-4 py-2 font-medium text-gray-700 hover:bg-gray-50"
+        >
+          <Sparkles className="h-4 w-4" aria-hidden="true" />
+          Start a new conversation
+        </button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,65 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ConversationComposer } from './ConversationComposer';
+
+describe('ConversationComposer', () => {
+  const open = () => fireEvent.click(screen.getByRole('button', { name: /type instead/i }));
+
+  it('stays collapsed until asked for, unless opened by default', () => {
+    const { unmount } = render(<ConversationComposer onSend={jest.fn()} moodColor="#000" />);
+    expect(screen.queryByLabelText('Message Clara')).not.toBeInTheDocument();
+    unmount();
+
+    render(<ConversationComposer onSend={jest.fn()} moodColor="#000" defaultOpen notice="No mic here" />);
+    expect(screen.getByLabelText('Message Clara')).toBeInTheDocument();
+    expect(screen.getByText('No mic here')).toBeInTheDocument();
+  });
+
+  it('sends trimmed text on Enter and clears the input', () => {
+    const onSend = jest.fn();
+    render(<ConversationComposer onSend={onSend} moodColor="#000" />);
+    open();
+
+    const input = screen.getByLabelText('Message Clara');
+    fireEvent.change(input, { target: { value: '  hello clara  ' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onSend).toHaveBeenCalledWith('hello clara', { muteVoice: false });
+    expect(input).toHaveValue('');
+  });
+
+  it('Shift+Enter does not send', () => {
+    const onSend = jest.fn();
+    render(<ConversationComposer onSend={onSend} moodColor="#000" />);
+    open();
+
+    const input = screen.getByLabelText('Message Clara');
+    fireEvent.change(input, { target: { value: 'line one' } });
+    fireEvent.keyDown(input, { key: 'Enter', shiftKey: true });
+
+    expect(onSend).not.toHaveBeenCalled();
+  });
+
+  it('carries the mute choice with the turn', () => {
+    const onSend = jest.fn();
+    render(<ConversationComposer onSend={onSend} moodColor="#000" />);
+    open();
+
+    fireEvent.click(screen.getByRole('button', { name: /will be spoken/i }));
+    fireEvent.change(screen.getByLabelText('Message Clara'), { target: { value: 'quiet please' } });
+    fireEvent.click(screen.getByRole('button', { name: /send message/i }));
+
+    expect(onSend).toHaveBeenCalledWith('quiet please', { muteVoice: true });
+  });
+
+  it('does not send while a turn is in flight', () => {
+    const onSend = jest.fn();
+    render(<ConversationComposer onSend={onSend} moodColor="#000" disabled />);
+    open();
+
+    const input = screen.getByLabelText('Message Clara');
+    fireEvent.change(input, { target: { value: 'too soon' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onSend).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { Keyboard, Send, Volume2, VolumeX, X } from 'lucide-react';
+
+export interface ComposerSendOptions {
+  muteVoice: boolean; // read Clara's reply instead of hearing it
+}
+
+interface ConversationComposerProps {
+  onSend: (text: string, options: ComposerSendOptions) => void;
+  disabled?: boolean;
+  moodColor: string;
+  defaultOpen?: boolean; // open from the start, e.g. when the browser can't do voice input
+  notice?: string | null; // shown above the input while open
+  reply?: string | null; // the last reply of a muted turn, for reading
+}
+
+// Keyboard input alongside voice. Typed turns go through the same pipeline as spoken ones —
+// this component only collects the text and the per-turn mute choice.
+export const ConversationComposer = ({
+  onSend,
+  disabled = false,
+  moodColor,
+  defaultOpen = false,
+  notice,
+  reply,
+}: ConversationComposerProps) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [text, setText] = useState('');
+  const [muteVoice, setMuteVoice] = useState(false);
+
+  const send = () => {
+    const message = text.trim();
+    if (!message || disabled) return;
+    onSend(message, { muteVoice });
+    setText('');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter is a newline — chat-app muscle memory.
+    if (event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing) {
+      event.preventDefault();
+      send();
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <div className="flex justify-center p-4">
+        <button
+          type="button"
+          onClick={() => setIsOpen(true)}
+          className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/50 backdrop-blur-sm border border-white/40 text-sm font-medium hover:bg-white/70 transition-colors"
+          style={{ color: moodColor }}
+        >
+          <Keyboard className="w-4 h-4" aria-hidden="true" />
+          Type instead
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-2xl mx-auto p-4" data-testid="conversation-composer">
+      {notice && <p className="mb-2 text-center text-sm text-gray-700">{notice}</p>}
+
+      {reply && (
+        <div
+          className="mb-3 rounded-2xl bg-white/70 backdrop-blur-sm px-4 py-3 text-sm text-gray-800 whitespace-pre-wrap"
+          aria-live="polite"
+        >
+          <span className="font-semibold" style={{ color: moodColor }}>Clara: </span>
+          {reply}
+        </div>
+      )}
+
+      <form
+        className="flex items-end gap-2 rounded-3xl bg-white/60 backdrop-blur-sm border border-white/40 p-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          send();
+        }}
+      >
+        <button
+          type="button"
+          onClick={() => setMuteVoice((muted) => !muted)}
+          className="p-2 rounded-full hover:bg-white/60 transition-colors"
+          style={{ color: moodColor }}
+          aria-pressed={muteVoice}
+          aria-label={muteVoice ? "Clara's reply will be shown as text" : "Clara's reply will be spoken"}
+          title={muteVoice ? 'Reply as text only' : 'Reply out loud'}
+        >
+          {muteVoice ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+        </button>
+
+        <label htmlFor="conversation-composer-input" className="sr-only">
+          Message Clara
+        </label>
+        <textarea
+          id="conversation-composer-input"
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={1}
+          placeholder="Type a message…"
+          className="flex-1 resize-none bg-transparent px-2 py-2 text-gray-800 placeholder:text-gray-500 focus:outline-none max-h-40"
+        />
+
+        <button
+          type="submit"
+          disabled={disabled || !text.trim()}
+          className="p-2 rounded-full text-white transition-opacity disabled:opacity-40"
+          style={{ backgroundColor: moodColor }}
+          aria-label="Send message"
+        >
+          <Send className="w-5 h-5" />
+        </button>
+
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="p-2 rounded-full text-gray-500 hover:bg-white/60 transition-colors"
+          aria-label="Close keyboard input"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+'use client';
+
+import { Settings } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { CaptionSize } from '@/lib/captions';
+import { detectLanguage, SUPPORTED_LANGUAGES, type LanguagePreference } from '@/lib/language';
+import type { MoodSource } from '@/lib/mood-arbiter';
+import {
+  selectUserSettings, useInteractionMode, useMasterVolume, useMoodSource, useSettingsStore, type InteractionMode,
+} from '@/store/settingsStore';
+import { MicSetup } from './MicSetup';
+import { VoiceSettings } from './VoiceSettings';
+
+interface ConversationSettingsProps {
+  moodColor: string;
+}
+
+const INTERACTION_MODES: { value: InteractionMode; label: string; description: string }[] = [
+  { value: 'hands-free', label: 'Hands-free', description: 'Stop talking to send; Clara listens again after she replies.' },
+  { value: 'tap-to-toggle', label: 'Tap to talk', description: 'Tap to start talking, tap again to send.' },
+  { value: 'hold-to-talk', label: 'Hold to talk', description: 'Hold the orb or the spacebar while you speak; let go to send.' },
+];
+
+const MOOD_SOURCES: { value: MoodSource; label: string; description: string }[] = [
+  { value: 'backend', label: "Clara's reading", description: 'The mood Clara picks up from the conversation.' },
+  { value: 'blended', label: 'Blended', description: "Clara's reading, leaning toward how your own words sound." },
+  { value: 'frontend', label: 'Your words', description: 'Only how your messages sound, read on this device.' },
+];
+
+const CAPTION_SIZES: { value: CaptionSize; label: string }[] = [
+  { value: 'small', label: 'Small' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'large', label: 'Large' },
+];
+
+// Per-user conversation preferences, behind the gear in the header.
+export const ConversationSettings = ({ moodColor }: ConversationSettingsProps) => {
+  const interactionMode = useInteractionMode();
+  const setInteractionMode = useSettingsStore((state) => state.setInteractionMode);
+  const languagePreference = useSettingsStore((state) => selectUserSettings(state).language);
+  const setLanguage = useSettingsStore((state) => state.setLanguage);
+  const captions = useSettingsStore((state) => selectUserSettings(state).captions);
+  const captionSize = useSettingsStore((state) => selectUserSettings(state).captionSize);
+  const updateSettings = useSettingsStore((state) => state.updateSettings);
+  const masterVolume = useMasterVolume();
+  const moodSource = useMoodSource();
+  const detectedLabel = SUPPORTED_LANGUAGES.find(({ code }) => code === detectLanguage())?.label;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex items-center gap-2 px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-all duration-200 border border-white/20 hover:border-white/30"
+          style={{ color: moodColor }}
+        >
+          <Settings className="w-4 h-4" aria-hidden="true" />
+          <span className="text-sm font-medium">Settings</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <fieldset>
+          <legend className="text-sm font-semibold" style={{ color: moodColor }}>
+            Talking to Clara
+          </legend>
+          <div className="mt-3 flex flex-col gap-3">
+            {INTERACTION_MODES.map(({ value, label, description }) => (
+              <label key={value} className="flex cursor-pointer items-start gap-3">
+                <input
+                  type="radio"
+                  name="interaction-mode"
+                  value={value}
+                  checked={interactionMode === value}
+                  onChange={() => setInteractionMode(value)}
+                  className="mt-1"
+                  style={{ accentColor: moodColor }}
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-800">{label}</span>
+                  <span className="block text-xs text-gray-600">{description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset className="mt-5">
+          <legend className="text-sm font-semibold" style={{ color: moodColor }}>
+            Microphone
+          </legend>
+          <div className="mt-2">
+            <MicSetup moodColor={moodColor} />
+          </div>
+        </fieldset>
+
+        <label className="mt-5 block">
+          <span className="block text-sm font-semibold" style={{ color: moodColor }}>
+            Language
+          </span>
+          <select
+            value={languagePreference}
+            onChange={(event) => setLanguage(event.target.value as LanguagePreference)}
+            className="mt-2 w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-800"
+          >
+            <option value="auto">Automatic{detectedLabel ? ` (${detectedLabel})` : ''}</option>
+            {SUPPORTED_LANGUAGES.map(({ code, label }) => (
+              <option key={code} value={code}>{label}</option>
+            ))}
+          </select>
+          <span className="mt-1 block text-xs text-gray-600">
+            What Clara listens for, speaks and replies in.
+          </span>
+        </label>
+
+        <div className="mt-5">
+          <VoiceSettings moodColor={moodColor} />
+        </div>
+
+        <label className="mt-5 block">
+          <span className="block text-sm font-semibold" style={{ color: moodColor }}>
+            Master volume
+          </span>
+          <span className="mt-2 flex items-center gap-3">
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={masterVolume}
+              onChange={(event) => updateSettings({ masterVolume: Number(event.target.value) })}
+              className="flex-1"
+              style={{ accentColor: moodColor }}
+            />
+            <span className="w-10 text-right text-xs text-gray-600">{Math.round(masterVolume * 100)}%</span>
+          </span>
+          <span className="mt-1 block text-xs text-gray-600">
+            Clara, the heartbeat and everything else, together.
+          </span>
+        </label>
+
+        <fieldset className="mt-5">
+          <legend className="text-sm font-semibold" style={{ color: moodColor }}>
+            Mood colours
+          </legend>
+          <div className="mt-3 flex flex-col gap-3">
+            {MOOD_SOURCES.map(({ value, label, description }) => (
+              <label key={value} className="flex cursor-pointer items-start gap-3">
+                <input
+                  type="radio"
+                  name="mood-source"
+                  value={value}
+                  checked={moodSource === value}
+                  onChange={() => updateSettings({ moodSource: value })}
+                  className="mt-1"
+                  style={{ accentColor: moodColor }}
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-800">{label}</span>
+                  <span className="block text-xs text-gray-600">{description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset className="mt-5">
+          <legend className="text-sm font-semibold" style={{ color: moodColor }}>
+            Captions
+          </legend>
+          <label className="mt-2 flex cursor-pointer items-center gap-3 text-sm text-gray-800">
+            <input
+              type="checkbox"
+              checked={captions}
+              onChange={(event) => updateSettings({ captions: event.target.checked })}
+              style={{ accentColor: moodColor }}
+            />
+            Show what Clara says on screen
+          </label>
+          <label className="mt-2 flex items-center gap-3 text-sm text-gray-800">
+            <span className="w-16 shrink-0">Text size</span>
+            <select
+              value={captionSize}
+              onChange={(event) => updateSettings({ captionSize: event.target.value as CaptionSize })}
+              className="flex-1 rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-800"
+            >
+              {CAPTION_SIZES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <span className="mt-1 block text-xs text-gray-600">
+            Captions also show whenever Clara&apos;s volume is at 0%.
+          </span>
+        </fieldset>
+      </PopoverContent>
+    </Popover>
+  );
+};
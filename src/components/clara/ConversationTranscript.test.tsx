@@ -0,0 +1,80 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ConversationTranscript } from './ConversationTranscript';
+import { type ClaraMessage } from '@/store/claraStore';
+
+const message = (overrides: Partial<ClaraMessage>): ClaraMessage => ({
+  id: Math.random().toString(36),
+  role: 'assistant',
+  content: '',
+  timestamp: new Date(),
+  ...overrides,
+});
+
+const baseProps = {
+  messages: [] as ClaraMessage[],
+  streamingText: '',
+  streamingEmotion: null,
+  speakingSentence: null,
+  isAISpeaking: false,
+  isOpen: true,
+  onClose: jest.fn(),
+  moodColor: '#000',
+};
+
+describe('ConversationTranscript', () => {
+  it('renders nothing while collapsed', () => {
+    render(<ConversationTranscript {...baseProps} isOpen={false} />);
+    expect(screen.queryByTestId('conversation-transcript')).not.toBeInTheDocument();
+  });
+
+  it('shows both sides of the conversation with emotion chips', () => {
+    render(
+      <ConversationTranscript
+        {...baseProps}
+        messages={[
+          message({ role: 'user', content: 'How was your day?', source: 'text' }),
+          message({ content: 'Long, honestly.', emotion: 'stressed' }),
+        ]}
+      />
+    );
+
+    expect(screen.getByText('How was your day?')).toBeInTheDocument();
+    expect(screen.getByText('Long, honestly.')).toBeInTheDocument();
+    expect(screen.getByText('stressed')).toBeInTheDocument();
+    expect(screen.getByLabelText('typed')).toBeInTheDocument();
+  });
+
+  it('renders the streaming reply and highlights the sentence being spoken', () => {
+    render(
+      <ConversationTranscript
+        {...baseProps}
+        streamingText="First bit. Second bit"
+        streamingEmotion="happy"
+        speakingSentence="First bit."
+      />
+    );
+
+    expect(screen.getByTestId('streaming-reply')).toHaveTextContent('First bit. Second bit');
+    expect(screen.getByText('First bit.').tagName).toBe('MARK');
+    expect(screen.getByText('happy')).toBeInTheDocument();
+  });
+
+  it('marks an interrupted reply', () => {
+    render(
+      <ConversationTranscript
+        {...baseProps}
+        messages={[message({ content: 'I was saying something long.', interrupted: true, heardContent: 'I was' })]}
+      />
+    );
+
+    expect(screen.getByText('interrupted')).toBeInTheDocument();
+    expect(screen.getByText('saying something long.', { exact: false })).toHaveClass('text-gray-400');
+  });
+
+  it('closes', () => {
+    const onClose = jest.fn();
+    render(<ConversationTranscript {...baseProps} onClose={onClose} />);
+    fireEvent.click(screen.getByRole('button', { name: /close transcript/i }));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { type ClaraMessage } from '@/store/claraStore';
+import { EmotionChip } from './EmotionChip';
+
+interface ConversationTranscriptProps {
+  messages: ClaraMessage[];
+  streamingText: string; // Clara's reply as it streams in, before it becomes a message
+  streamingEmotion: string | null;
+  speakingSentence: string | null; // the sentence most recently handed to the voice
+  isAISpeaking: boolean;
+  isOpen: boolean;
+  onClose: () => void;
+  moodColor: string;
+}
+
+// The queued sentence has been cleaned for speech (newlines, stray quotes), so it may not
+// appear verbatim — no match just means no highlight.
+const withHighlight = (text: string, sentence: string | null) => {
+  const at = sentence ? text.lastIndexOf(sentence) : -1;
+  if (!sentence || at === -1) return text;
+  return (
+    <>
+      {text.slice(0, at)}
+      <mark className="rounded bg-yellow-200/70 px-0.5 text-inherit">{sentence}</mark>
+      {text.slice(at + sentence.length)}
+    </>
+  );
+};
+
+// An interrupted reply shows the part the user heard, then the rest faded out.
+const interruptedContent = (message: ClaraMessage) => {
+  const heard = message.heardContent ?? '';
+  const rest = message.content.startsWith(heard) ? message.content.slice(heard.length) : message.content;
+  return (
+    <>
+      {heard}
+      <span className="text-gray-400">{rest}</span>
+    </>
+  );
+};
+
+// Collapsible drawer with the whole conversation, Clara's reply filling in as it streams.
+export const ConversationTranscript = ({
+  messages,
+  streamingText,
+  streamingEmotion,
+  speakingSentence,
+  isAISpeaking,
+  isOpen,
+  onClose,
+  moodColor,
+}: ConversationTranscriptProps) => {
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) bottomRef.current?.scrollIntoView?.({ block: 'end' });
+  }, [isOpen, messages.length, streamingText]);
+
+  if (!isOpen) return null;
+
+  // Once the stream ends the reply is a message, but Clara can still be saying it.
+  const lastMessage = messages[messages.length - 1];
+  const liveMessageId = !streamingText && isAISpeaking && lastMessage?.role === 'assistant' ? lastMessage.id : null;
+
+  return (
+    <aside
+      className="fixed inset-y-0 right-0 z-30 flex w-full max-w-md flex-col bg-white/85 backdrop-blur-md shadow-xl"
+      aria-label="Conversation transcript"
+      data-testid="conversation-transcript"
+    >
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+        <h2 className="font-semibold" style={{ color: moodColor }}>Transcript</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full p-1 text-gray-500 hover:bg-gray-100"
+          aria-label="Close transcript"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 space-y-3 overflow-y-auto px-4 py-4" role="log" aria-live="polite">
+        {messages.length === 0 && !streamingText && (
+          <p className="text-sm text-gray-500">Nothing said yet.</p>
+        )}
+
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className={`flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}
+          >
+            <div className="mb-1 flex items-center gap-2 text-xs text-gray-500">
+              <span className="font-medium">{message.role === 'user' ? 'You' : 'Clara'}</span>
+              {message.source === 'text' && <Keyboard className="h-3 w-3" aria-label="typed" />}
+              {message.emotion && <EmotionChip emotion={message.emotion} />}
+              {message.interrupted && <span className="italic">interrupted</span>}
+              {message.superseded && <span className="italic">cut short</span>}
+            </div>
+            <p
+              className={`max-w-[85%] whitespace-pre-wrap rounded-2xl px-3 py-2 text-sm ${
+                message.role === 'user' ? 'bg-sky-100 text-sky-900' : 'bg-rose-50 text-gray-800'
+              } ${message.superseded ? 'opacity-60' : ''}`}
+            >
+              {message.interrupted
+                ? interruptedContent(message)
+                : message.id === liveMessageId
+                  ? withHighlight(message.content, speakingSentence)
+                  : message.content}
+            </p>
+          </div>
+        ))}
+
+        {streamingText && (
+          <div className="flex flex-col items-start" data-testid="streaming-reply">
+            <div className="mb-1 flex items-center gap-2 text-xs text-gray-500">
+              <span className="font-medium">Clara</span>
+              {streamingEmotion && <EmotionChip emotion={streamingEmotion} />}
+            </div>
+            <p className="max-w-[85%] whitespace-pre-wrap rounded-2xl bg-rose-50 px-3 py-2 text-sm text-gray-800">
+              {withHighlight(streamingText, speakingSentence)}
+              <span className="ml-0.5 inline-block h-3 w-1.5 animate-pulse bg-gray-400 align-middle" aria-hidden="true" />
+            </p>
+          </div>
+        )}
+
+        <div ref={bottomRef} />
+      </div>
+    </aside>
+  );
+};
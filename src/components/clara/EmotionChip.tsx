@@ -0,0 +1,14 @@
+import { HEARTBEAT_BPM_CONFIGS, backendEmotionToMood } from '@/utils/heartbeat-utils';
+
+// A backend conversation_emotion, tinted with the mood colour it maps to.
+export const EmotionChip = ({ emotion }: { emotion: string }) => {
+  const color = HEARTBEAT_BPM_CONFIGS[backendEmotionToMood(emotion)].color;
+  return (
+    <span
+      className="rounded-full px-2 py-0.5 text-[11px] font-medium"
+      style={{ color, backgroundColor: `${color}1f` }}
+    >
+      {emotion}
+    </span>
+  );
+};
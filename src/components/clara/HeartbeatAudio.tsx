@@ -2,13 +2,14 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { EmotionalMood } from './EmotionalBackdrop';
+import { getAudioGraph } from '@/lib/audio-graph';
 import { getAudioManager } from '@/lib/audio-manager';
 import { calculateFinalBPM } from '@/utils/heartbeat-utils';
 
 interface HeartbeatAudioProps {
   mood: EmotionalMood;
   conversationIntensity: 'low' | 'medium' | 'high';
-  isActive: boolean; // Should play when "Tap to Listen" is visible
+  isActive: boolean; // full level when "Tap to Talk" is showing; ducked under the conversation otherwise
   volume?: number;
   muted?: boolean;
   onMuteChange?: (muted: boolean) => void;
@@ -52,38 +53,30 @@ export const HeartbeatAudio = ({
     audioManager.setMuted(muted);
   }, [volume, muted]);
 
-  // Control heartbeat playback based on conversation state
+  // Duck rather than stop: the heartbeat sinks under the conversation and swells back after it
+  useEffect(() => {
+    getAudioGraph().duck(!isActive);
+  }, [isActive]);
+
+  // Keep the heartbeat going while unmuted; a new mood or intensity crossfades into its rhythm.
+  // isActive is here only to retry once the audio manager is ready — that waits on a click.
   useEffect(() => {
     const audioManager = audioManagerRef.current;
 
-    if (isActive && !muted && audioManager.isReady()) {
+    if (!muted && audioManager.isReady()) {
       // Calculate BPM using the same function as visual heartbeat
-      const adjustedBpm = calculateFinalBPM(mood, conversationIntensity);
-
-      // Stop any existing heartbeat first
-      audioManager.stopHeartbeat();
-
-      // Small delay to ensure clean restart
-      setTimeout(() => {
-        if (isActive && !muted && audioManager.isReady()) {
-          audioManager.playHeartbeat(mood, adjustedBpm);
-        }
-      }, 50);
+      audioManager.playHeartbeat(mood, calculateFinalBPM(mood, conversationIntensity));
     } else {
-      // Stop heartbeat audio
       audioManager.stopHeartbeat();
     }
-
-    // Cleanup on unmount or when dependencies change
-    return () => {
-      audioManager.stopHeartbeat();
-    };
   }, [isActive, mood, conversationIntensity, muted]);
 
   // Cleanup on unmount
   useEffect(() => {
+    const audioManager = audioManagerRef.current;
     return () => {
-      audioManagerRef.current.stopHeartbeat();
+      audioManager.stopHeartbeat();
+      getAudioGraph().duck(false); // nothing left to duck for
     };
   }, []);
 
@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { wordsReached, type Caption, type CaptionSize } from '@/lib/captions';
+import { useCaptionSettings } from '@/store/settingsStore';
+
+interface LiveCaptionsProps {
+  // Polled every frame while Clara speaks — BrowserSpeechService.caption()
+  getCaption: () => Caption | null;
+  active: boolean;
+}
+
+const SIZE_CLASSES: Record<CaptionSize, string> = {
+  small: 'text-base',
+  medium: 'text-xl',
+  large: 'text-3xl',
+};
+
+interface Shown {
+  words: string[];
+  reached: number;
+}
+
+// Captions for what Clara is saying, timed to her audio: the sentence being heard, with the words
+// playback has reached in full and the rest dimmed. Shown when the user turns captions on, or
+// mutes her.
+export const LiveCaptions = ({ getCaption, active }: LiveCaptionsProps) => {
+  const { enabled, size } = useCaptionSettings();
+  const [shown, setShown] = useState<Shown | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !active) {
+      setShown(null);
+      return;
+    }
+    let frame = 0;
+    const poll = () => {
+      const caption = getCaption();
+      const words = caption ? caption.text.split(/\s+/).filter(Boolean) : null;
+      const reached = caption ? wordsReached(caption.text, caption.progress) : 0;
+      // Sixty polls a second, but a render only when a word changes
+      setShown((prev) => {
+        if (!words) return null;
+        if (prev && prev.reached === reached && prev.words.join(' ') === words.join(' ')) return prev;
+        return { words, reached };
+      });
+      frame = requestAnimationFrame(poll);
+    };
+    poll();
+    return () => cancelAnimationFrame(frame);
+  }, [enabled, active, getCaption]);
+
+  if (!shown) return null;
+
+  return (
+    // Visual only: screen readers get Clara's reply from the transcript, and a region changing
+    // word by word would talk over her.
+    <div
+      data-testid="live-captions"
+      aria-hidden="true"
+      className="pointer-events-none fixed inset-x-0 bottom-28 z-40 flex justify-center px-4"
+    >
+      <p className={`max-w-3xl rounded-lg bg-black/80 px-4 py-2 text-center font-medium leading-snug ${SIZE_CLASSES[size]}`}>
+        {shown.words.map((word, index) => (
+          <span
+            key={index}
+            className={`transition-colors duration-100 motion-reduce:transition-none ${
+              index < shown.reached ? 'text-white' : 'text-white/50'
+            }`}
+          >
+            {word}{' '}
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Mic, MicOff } from 'lucide-react';
+import { getAudioGraph } from '@/lib/audio-graph';
+import { getMicManager, type MicPermission, type MicProblem, type MicState } from '@/lib/mic';
+import { selectUserSettings, useSettingsStore } from '@/store/settingsStore';
+
+interface MicSetupProps {
+  moodColor: string;
+}
+
+interface MicSetupDialogProps extends MicSetupProps {
+  onClose: () => void;
+}
+
+// What went wrong, in words, and what the user can do about it
+const HELP: Record<MicProblem, { title: string; steps: string[] }> = {
+  dismissed: {
+    title: 'Clara needs your microphone to hear you',
+    steps: ['Choose “Allow microphone” below, then “Allow” when your browser asks.'],
+  },
+  blocked: {
+    title: 'Microphone access is blocked for this site',
+    steps: [
+      'Click the lock or site-settings icon at the left of the address bar.',
+      'Set Microphone to “Allow”.',
+      'Come back here and choose “Try again” — or reload the page.',
+    ],
+  },
+  'os-blocked': {
+    title: 'Your computer is keeping the browser off the microphone',
+    steps: [
+      'macOS: System Settings → Privacy & Security → Microphone, and switch your browser on.',
+      'Windows: Settings → Privacy & security → Microphone, and allow desktop apps.',
+      'Restart the browser, then choose “Try again”.',
+    ],
+  },
+  'no-device': {
+    title: 'No microphone found',
+    steps: ['Plug in or switch on a microphone or headset.', 'Pick it from the list below, then choose “Try again”.'],
+  },
+  'in-use': {
+    title: 'The microphone is busy',
+    steps: ['Close other apps or tabs that might be using it, like video calls.', 'Then choose “Try again”.'],
+  },
+  insecure: {
+    title: 'The microphone needs a secure connection',
+    steps: ['Open Clara from an https:// address.'],
+  },
+  unsupported: {
+    title: "This browser can't use a microphone",
+    steps: ['Try a recent Chrome, Edge, Firefox or Safari — or type to Clara instead.'],
+  },
+  unknown: {
+    title: "The microphone couldn't be opened",
+    steps: ['Check it is plugged in and not muted, then choose “Try again”.'],
+  },
+};
+
+const PERMISSION_LABELS: Record<MicPermission, string> = {
+  granted: 'Microphone allowed',
+  prompt: 'Not allowed yet — your browser will ask',
+  denied: 'Blocked for this site',
+  unknown: 'Not checked yet',
+};
+
+const useMicState = () => {
+  const [state, setState] = useState<MicState>(() => getMicManager().getState());
+  useEffect(() => {
+    const manager = getMicManager();
+    void manager.checkPermission();
+    return manager.onChange(setState);
+  }, []);
+  return state;
+};
+
+// Live input level while testing: the shared stream into an analyser on the shared graph, never
+// to the speakers.
+const useMicLevel = (testing: boolean, deviceId: string | null) => {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!testing) return;
+    const manager = getMicManager();
+    let frame = 0;
+    let source: MediaStreamAudioSourceNode | null = null;
+    let cancelled = false;
+
+    void manager.acquire().then((stream) => {
+      if (cancelled) {
+        manager.release();
+        return;
+      }
+      const ctx = getAudioGraph().context();
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 1024;
+      source = ctx.createMediaStreamSource(stream);
+      source.connect(analyser);
+      const samples = new Float32Array(analyser.fftSize);
+      const poll = () => {
+        analyser.getFloatTimeDomainData(samples);
+        const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+        setLevel(Math.min(rms * 4, 1)); // speech at a normal distance sits around 0.05–0.2 RMS
+        frame = requestAnimationFrame(poll);
+      };
+      poll();
+    }).catch(() => { /* the manager's state already says why */ });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      if (source) {
+        source.disconnect();
+        manager.release();
+      }
+      setLevel(0);
+    };
+  }, [testing, deviceId]); // a new device is a new stream to tap
+
+  return level;
+};
+
+// Mic permission, input device and a level check — everything between the user and being heard.
+export const MicSetup = ({ moodColor }: MicSetupProps) => {
+  const state = useMicState();
+  const deviceId = useSettingsStore((s) => selectUserSettings(s).micDeviceId);
+  const updateSettings = useSettingsStore((s) => s.updateSettings);
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [testing, setTesting] = useState(false);
+  const level = useMicLevel(testing, deviceId);
+  const help = state.problem ? HELP[state.problem] : null;
+
+  const refreshInputs = useCallback(() => {
+    void getMicManager().listInputs().then(setInputs).catch(() => setInputs([]));
+  }, []);
+
+  // Labels only appear once permission is granted, and devices come and go
+  useEffect(() => {
+    refreshInputs();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshInputs);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refreshInputs);
+  }, [refreshInputs, state.permission]);
+
+  const handleAllow = async () => {
+    const manager = getMicManager();
+    try {
+      await manager.acquire();
+      manager.release();
+    } catch { /* shown through the manager's state */ }
+  };
+
+  return (
+    <div>
+      <p className="flex items-center gap-2 text-sm text-gray-800">
+        {state.permission === 'denied' || state.problem ? (
+          <MicOff className="h-4 w-4 text-red-600" aria-hidden="true" />
+        ) : (
+          <Mic className="h-4 w-4" style={{ color: moodColor }} aria-hidden="true" />
+        )}
+        {PERMISSION_LABELS[state.permission]}
+      </p>
+
+      {help && (
+        <div className="mt-3 rounded-lg bg-red-50 p-3" role="alert">
+          <p className="text-sm font-medium text-red-800">{help.title}</p>
+          <ol className="mt-1 list-decimal pl-5 text-xs text-red-800">
+            {help.steps.map((step) => <li key={step}>{step}</li>)}
+          </ol>
+        </div>
+      )}
+
+      {state.permission !== 'granted' && (
+        <button
+          type="button"
+          onClick={() => void handleAllow()}
+          className="mt-3 w-full rounded-full px-4 py-2 text-sm font-medium text-white"
+          style={{ backgroundColor: moodColor }}
+        >
+          {state.problem ? 'Try again' : 'Allow microphone'}
+        </button>
+      )}
+
+      <label className="mt-3 block text-sm text-gray-800">
+        <span className="block">Input device</span>
+        <select
+          value={deviceId ?? ''}
+          onChange={(event) => updateSettings({ micDeviceId: event.target.value || null })}
+          className="mt-1 w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-800"
+        >
+          <option value="">System default</option>
+          {inputs
+            .filter((input) => input.deviceId && input.deviceId !== 'default')
+            .map((input, index) => (
+              <option key={input.deviceId} value={input.deviceId}>
+                {input.label || `Microphone ${index + 1}`}
+              </option>
+            ))}
+        </select>
+      </label>
+
+      <div className="mt-3 flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => setTesting((on) => !on)}
+          aria-pressed={testing}
+          className="shrink-0 rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+        >
+          {testing ? 'Stop test' : 'Test microphone'}
+        </button>
+        <div
+          className="h-2 flex-1 overflow-hidden rounded-full bg-gray-200"
+          role="meter"
+          aria-label="Microphone level"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(level * 100)}
+        >
+          <div className="h-full rounded-full" style={{ width: `${level * 100}%`, backgroundColor: moodColor }} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Mic setup on its own: on a first visit before the browser has been asked, or when the mic
+// just failed.
+export const MicSetupDialog = ({ moodColor, onClose }: MicSetupDialogProps) => {
+  const closeRef = useRef<HTMLButtonElement>(null);
+  useEffect(() => closeRef.current?.focus(), []);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/20 backdrop-blur-sm p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="mic-setup-title"
+        className="w-full max-w-sm rounded-3xl bg-white/90 p-6 shadow-xl"
+      >
+        <h2 id="mic-setup-title" className="text-lg font-semibold" style={{ color: moodColor }}>
+          Set up your microphone
+        </h2>
+        <p className="mt-1 text-sm text-gray-600">Clara listens only while you&apos;re talking to her.</p>
+        <div className="mt-4">
+          <MicSetup moodColor={moodColor} />
+        </div>
+        <button
+          ref={closeRef}
+          type="button"
+          onClick={onClose}
+          className="mt-5 w-full rounded-full border border-gray-300 px-4 py-2 font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Circle, Download, Square } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  ConversationRecorder,
+  isRecordingSupported,
+  recordingToWav,
+  transcriptFor,
+  type AudioOutput,
+  type Recording,
+} from '@/lib/recorder';
+import type { ClaraMessage } from '@/store/claraStore';
+
+interface RecordingControlsProps {
+  getAudioOutput: () => AudioOutput;
+  messages: ClaraMessage[];
+  moodColor: string;
+}
+
+const EXTENSIONS: Record<string, string> = { 'audio/webm': 'webm', 'audio/ogg': 'ogg', 'audio/mp4': 'm4a' };
+
+const baseName = (recording: Recording) =>
+  `clara-conversation-${recording.startedAt.toISOString().slice(0, 19).replace(/:/g, '-')}`;
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Opt-in recording of the conversation — both voices, for sharing a session. Stopping offers the
+// audio as recorded or as WAV, and a timestamped transcript.
+export const RecordingControls = ({ getAudioOutput, messages, moodColor }: RecordingControlsProps) => {
+  const recorderRef = useRef<ConversationRecorder | null>(null);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [supported] = useState(isRecordingSupported);
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const timer = setInterval(() => setElapsed(Date.now() - startedAt), 1000);
+    return () => clearInterval(timer);
+  }, [startedAt]);
+
+  // Leaving the page mid-recording must not leave the mic open
+  useEffect(() => () => { if (recorderRef.current?.recording) void recorderRef.current.stop(); }, []);
+
+  if (!supported) return null;
+
+  const handleStart = async () => {
+    setError(null);
+    setRecording(null);
+    const recorder = new ConversationRecorder(getAudioOutput);
+    try {
+      await recorder.start();
+    } catch (startError) {
+      setError(startError instanceof Error ? startError.message : 'Could not start recording');
+      return;
+    }
+    recorderRef.current = recorder;
+    setElapsed(0);
+    setStartedAt(Date.now());
+  };
+
+  const handleStop = async () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setStartedAt(null);
+    if (recorder) setRecording(await recorder.stop());
+  };
+
+  const handleWav = async (done: Recording) => {
+    try {
+      download(await recordingToWav(done, getAudioOutput().context), `${baseName(done)}.wav`);
+    } catch {
+      setError("This browser can't convert the recording to WAV — download it as recorded instead.");
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-2 px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-all duration-200 border border-white/20 hover:border-white/30';
+
+  if (startedAt !== null) {
+    return (
+      <button type="button" onClick={() => void handleStop()} className={buttonClass} style={{ color: moodColor }}>
+        <Square className="w-4 h-4 fill-current" aria-hidden="true" />
+        <span className="text-sm font-medium">Stop recording</span>
+        <span className="flex items-center gap-1 text-xs" role="timer" aria-label="Recording time">
+          <span className="h-2 w-2 rounded-full bg-red-500 motion-safe:animate-pulse" aria-hidden="true" />
+          {formatElapsed(elapsed)}
+        </span>
+      </button>
+    );
+  }
+
+  return (
+    <Popover open={recording !== null || error !== null} onOpenChange={(open) => { if (!open) { setRecording(null); setError(null); } }}>
+      <PopoverTrigger asChild>
+        <button type="button" onClick={() => void handleStart()} className={buttonClass} style={{ color: moodColor }}>
+          <Circle className="w-4 h-4" aria-hidden="true" />
+          <span className="text-sm font-medium">Record</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        {error && <p className="text-sm text-red-700" role="alert">{error}</p>}
+        {recording && (
+          <>
+            <p className="text-sm font-semibold" style={{ color: moodColor }}>
+              Recording saved ({formatElapsed(recording.durationMs)})
+            </p>
+            <div className="mt-3 flex flex-col gap-2">
+              {[
+                {
+                  label: 'Audio as recorded',
+                  onClick: () => download(
+                    recording.audio,
+                    `${baseName(recording)}.${EXTENSIONS[recording.audio.type.split(';')[0] ?? ''] ?? 'webm'}`
+                  ),
+                },
+                { label: 'Audio (WAV)', onClick: () => void handleWav(recording) },
+                {
+                  label: 'Transcript (JSON)',
+                  onClick: () => download(
+                    new Blob([JSON.stringify(transcriptFor(messages, recording), null, 2)], { type: 'application/json' }),
+                    `${baseName(recording)}.json`
+                  ),
+                },
+              ].map(({ label, onClick }) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={onClick}
+                  className="flex items-center gap-2 rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <Download className="h-4 w-4" aria-hidden="true" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
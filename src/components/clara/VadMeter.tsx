@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { onVadReading, type VadReading } from '@/lib/vad';
+
+// dBFS range the bar spans: quiet room to shouting into the mic
+const MIN_DB = -90;
+const MAX_DB = -10;
+
+const toPercent = (db: number) => `${Math.min(Math.max((db - MIN_DB) / (MAX_DB - MIN_DB), 0), 1) * 100}%`;
+
+// Debug overlay for tuning config.speech.vad: live level against the learned noise floor and the
+// onset threshold. Only mounted when NEXT_PUBLIC_VAD_DEBUG is set.
+export const VadMeter = () => {
+  const [reading, setReading] = useState<VadReading | null>(null);
+
+  useEffect(() => onVadReading(setReading), []);
+
+  return (
+    <div
+      data-testid="vad-meter"
+      className="fixed bottom-4 left-4 z-50 w-64 rounded-lg bg-black/70 p-3 font-mono text-xs text-white"
+    >
+      <div className="mb-2 flex justify-between">
+        <span>VAD</span>
+        <span className={reading?.speaking ? 'text-green-400' : 'text-white/60'}>
+          {reading ? (reading.speaking ? 'speech' : 'quiet') : 'off'}
+        </span>
+      </div>
+      <div className="relative h-3 rounded bg-white/10">
+        {reading && (
+          <>
+            <div
+              className={`absolute inset-y-0 left-0 rounded ${reading.speaking ? 'bg-green-400' : 'bg-white/50'}`}
+              style={{ width: toPercent(reading.energyDb) }}
+            />
+            <div className="absolute inset-y-0 w-px bg-sky-400" style={{ left: toPercent(reading.noiseFloorDb) }} title="noise floor" />
+            <div className="absolute inset-y-0 w-px bg-rose-400" style={{ left: toPercent(reading.thresholdDb) }} title="onset threshold" />
+          </>
+        )}
+      </div>
+      {reading && (
+        <div className="mt-2 grid grid-cols-2 gap-x-2 text-white/70">
+          <span>level {reading.energyDb.toFixed(0)} dB</span>
+          <span>floor {reading.noiseFloorDb.toFixed(0)} dB</span>
+          <span>onset {reading.thresholdDb.toFixed(0)} dB</span>
+          <span>voice band {(reading.speechBandRatio * 100).toFixed(0)}%</span>
+        </div>
+      )}
+    </div>
+  );
+};
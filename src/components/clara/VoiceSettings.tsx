@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Volume2 } from 'lucide-react';
+import { baseLanguage } from '@/lib/language';
+import { BrowserSpeechService } from '@/lib/speech';
+import type { TtsProviderId, TtsVoice } from '@/lib/tts';
+import { useLanguage, useSettingsStore, useVoiceSettings } from '@/store/settingsStore';
+
+interface VoiceSettingsProps {
+  moodColor: string;
+}
+
+const PROVIDER_LABELS: Record<TtsProviderId, string> = {
+  'voice-server': 'Voice server',
+  openai: 'OpenAI-compatible server',
+  'web-speech': 'This browser',
+};
+
+const PREVIEW_TEXT = "Hi, I'm Clara. This is how I'll sound.";
+
+// Choice and picker value are one string: provider ids contain no ':', voice ids might.
+const toValue = (voice: { provider: TtsProviderId; id: string }) => `${voice.provider}:${voice.id}`;
+
+const SLIDERS = [
+  { key: 'rate', label: 'Speed', min: 0.5, max: 2, step: 0.05 },
+  { key: 'pitch', label: 'Pitch', min: 0.5, max: 2, step: 0.05 },
+  { key: 'volume', label: 'Volume', min: 0, max: 1, step: 0.05 },
+] as const;
+
+// Clara's voice: which one, how fast, how high, how loud — with a preview to try them out.
+export const VoiceSettings = ({ moodColor }: VoiceSettingsProps) => {
+  const settings = useVoiceSettings();
+  const language = useLanguage();
+  const setVoice = useSettingsStore((state) => state.setVoice);
+  const updateSettings = useSettingsStore((state) => state.updateSettings);
+  const [voices, setVoices] = useState<TtsVoice[] | null>(null);
+  // Its own service, so a preview never touches the conversation's speech queue.
+  const previewServiceRef = useRef<BrowserSpeechService | null>(null);
+
+  useEffect(() => {
+    const service = new BrowserSpeechService();
+    previewServiceRef.current = service;
+    let cancelled = false;
+    void service.listVoices().then((listed) => { if (!cancelled) setVoices(listed); });
+    return () => {
+      cancelled = true;
+      service.stopSpeaking();
+    };
+  }, []);
+
+  // Browsers ship voices for dozens of languages; only the conversation's is worth listing.
+  const listed = (voices ?? []).filter(
+    (voice) => !voice.language || baseLanguage(voice.language) === baseLanguage(language)
+  );
+  const groups = (Object.keys(PROVIDER_LABELS) as TtsProviderId[])
+    .map((provider) => ({ provider, voices: listed.filter((voice) => voice.provider === provider) }))
+    .filter(({ voices: inGroup }) => inGroup.length > 0);
+
+  const handleVoiceChange = (value: string) => {
+    setVoice(listed.find((voice) => toValue(voice) === value) ?? null);
+  };
+
+  return (
+    <fieldset>
+      <legend className="text-sm font-semibold" style={{ color: moodColor }}>
+        Clara&apos;s voice
+      </legend>
+
+      <div className="mt-2 flex gap-2">
+        <select
+          aria-label="Voice"
+          value={settings.voice ? toValue(settings.voice) : ''}
+          onChange={(event) => handleVoiceChange(event.target.value)}
+          disabled={voices === null}
+          className="min-w-0 flex-1 rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-800"
+        >
+          <option value="">{voices === null ? 'Loading voices…' : 'Automatic'}</option>
+          {/* A saved voice this browser or server no longer offers still shows, so it isn't silently swapped */}
+          {settings.voice && !listed.some((voice) => toValue(voice) === toValue(settings.voice!)) && (
+            <option value={toValue(settings.voice)}>{settings.voice.id} (unavailable)</option>
+          )}
+          {groups.map(({ provider, voices: inGroup }) => (
+            <optgroup key={provider} label={PROVIDER_LABELS[provider]}>
+              {inGroup.map((voice) => (
+                <option key={toValue(voice)} value={toValue(voice)}>
+                  {voice.name}{voice.language ? ` (${voice.language})` : ''}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => void previewServiceRef.current?.preview(PREVIEW_TEXT, settings).catch(() => {})}
+          className="flex items-center gap-1 rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+        >
+          <Volume2 className="h-4 w-4" aria-hidden="true" />
+          Preview
+        </button>
+      </div>
+
+      <div className="mt-3 flex flex-col gap-2">
+        {SLIDERS.map(({ key, label, min, max, step }) => (
+          <label key={key} className="flex items-center gap-3 text-sm text-gray-800">
+            <span className="w-16 shrink-0">{label}</span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={settings[key]}
+              onChange={(event) => updateSettings({ [key]: Number(event.target.value) })}
+              className="flex-1"
+              style={{ accentColor: moodColor }}
+            />
+            <span className="w-10 text-right text-xs text-gray-600">
+              {key === 'volume' ? `${Math.round(settings[key] * 100)}%` : `${settings[key].toFixed(2)}×`}
+            </span>
+          </label>
+        ))}
+        <p className="text-xs text-gray-600">Pitch applies to browser voices only.</p>
+      </div>
+    </fieldset>
+  );
+};
@@ -1,5 +1,6 @@
+import React from 'react';
 import { render, screen, act, fireEvent } from '@testing-library/react';
-import { SpeechInterface } from './SpeechInterface';
+import { SpeechInterface, type SpeechInterfaceRef } from './SpeechInterface';
 import { useClaraStore } from '@/store/claraStore';
 import { config } from '@/lib/config';
 
@@ -10,6 +11,8 @@ let mockEndSession: () => void = () => {};
 jest.mock('@/lib/simpleSpeech', () => ({
   SimpleSpeech: jest.fn().mockImplementation(() => ({
     canListen: () => true,
+    setLanguage: jest.fn(),
+    setVoiceSettings: jest.fn(),
     stopListening: jest.fn().mockResolvedValue(undefined),
     startListening: (onResult: (r: { transcript: string; isFinal: boolean }) => void) => {
       mockEmit = onResult;
@@ -21,6 +24,18 @@ jest.mock('@/lib/simpleSpeech', () => ({
   })),
 }));
 
+// Fake VAD, off unless a test turns it on: the detector's view of the mic is set by hand.
+let mockVadSupported = false;
+let mockVad: { speaking: boolean; heardSpeech: boolean; handlers: { onSpeechEnd?: () => void } } | null = null;
+
+jest.mock('@/lib/vad', () => ({
+  isVadSupported: () => mockVadSupported,
+  VoiceActivityDetector: jest.fn().mockImplementation((handlers) => {
+    mockVad = { speaking: false, heardSpeech: false, handlers, start: jest.fn(), stop: jest.fn() } as typeof mockVad;
+    return mockVad;
+  }),
+}));
+
 const startSession = async () => {
   await act(async () => {
     fireEvent.click(screen.getByRole('button', { name: /tap to talk/i }));
@@ -127,4 +142,173 @@ describe('SpeechInterface end-of-speech detection', () => {
     expect(onTranscriptComplete).not.toHaveBeenCalled();
     expect(useClaraStore.getState().isPaused).toBe(true);
   });
+
+  describe('barge-in', () => {
+    const speakOver = async (props: Partial<React.ComponentProps<typeof SpeechInterface>> = {}) => {
+      const onBargeIn = jest.fn(() => useClaraStore.getState().interruptAISpeaking(null, ''));
+      const onTranscriptComplete = jest.fn();
+      render(
+        <SpeechInterface
+          onTranscriptComplete={onTranscriptComplete}
+          bargeIn
+          isLikelyEcho={(text) => text.includes('clara said')}
+          onBargeIn={onBargeIn}
+          {...props}
+        />
+      );
+      await act(async () => {
+        useClaraStore.getState().setAISpeaking(true);
+      });
+      return { onBargeIn, onTranscriptComplete };
+    };
+
+    test('talking over Clara interrupts her and becomes the next turn', async () => {
+      const { onBargeIn, onTranscriptComplete } = await speakOver();
+
+      act(() => mockEmit({ transcript: 'hold on', isFinal: false }));
+      expect(onBargeIn).toHaveBeenCalledTimes(1);
+      expect(useClaraStore.getState().isListening).toBe(true);
+
+      await act(async () => {
+        jest.advanceTimersByTime(config.speech.interimSilenceTimeout);
+      });
+      expect(onTranscriptComplete).toHaveBeenCalledWith('hold on');
+    });
+
+    test('her own echo and one-word noises do not count', async () => {
+      const { onBargeIn } = await speakOver();
+
+      act(() => mockEmit({ transcript: 'clara said this', isFinal: false }));
+      act(() => mockEmit({ transcript: 'mm', isFinal: false }));
+
+      expect(onBargeIn).not.toHaveBeenCalled();
+      expect(useClaraStore.getState().isAISpeaking).toBe(true);
+    });
+
+    test('tapping while she speaks interrupts', async () => {
+      const { onBargeIn } = await speakOver();
+
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: /interrupt/i }));
+      });
+
+      expect(onBargeIn).toHaveBeenCalledTimes(1);
+      expect(useClaraStore.getState().isListening).toBe(true);
+    });
+  });
+
+  describe('interaction modes', () => {
+    test('tap-to-toggle: tapping while listening sends what was heard', async () => {
+      const onTranscriptComplete = jest.fn();
+      render(<SpeechInterface onTranscriptComplete={onTranscriptComplete} interactionMode="tap-to-toggle" />);
+      await startSession();
+
+      act(() => mockEmit({ transcript: 'that is all', isFinal: false }));
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: /send/i }));
+      });
+
+      expect(onTranscriptComplete).toHaveBeenCalledTimes(1);
+      expect(onTranscriptComplete).toHaveBeenCalledWith('that is all');
+      expect(useClaraStore.getState().isPaused).toBe(false);
+    });
+
+    test('hands-free on a touch device: tapping while listening sends what was heard', async () => {
+      Object.defineProperty(navigator, 'maxTouchPoints', { value: 5, configurable: true });
+      const onTranscriptComplete = jest.fn();
+      render(<SpeechInterface onTranscriptComplete={onTranscriptComplete} />);
+      await startSession();
+
+      act(() => mockEmit({ transcript: 'on my phone', isFinal: false }));
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: /send/i }));
+      });
+
+      expect(onTranscriptComplete).toHaveBeenCalledWith('on my phone');
+      delete (navigator as { maxTouchPoints?: number }).maxTouchPoints;
+    });
+
+    test('tap-to-toggle: silence and session ends do not send; the tap sends everything said', async () => {
+      const onTranscriptComplete = jest.fn();
+      render(<SpeechInterface onTranscriptComplete={onTranscriptComplete} interactionMode="tap-to-toggle" />);
+      await startSession();
+
+      act(() => mockEmit({ transcript: 'let me think', isFinal: true }));
+      await act(async () => {
+        jest.advanceTimersByTime(Math.max(config.speech.silenceTimeout, config.speech.interimSilenceTimeout) * 2);
+        mockEndSession(); // Chrome stops after the utterance; the turn goes on
+      });
+      expect(onTranscriptComplete).not.toHaveBeenCalled();
+      expect(useClaraStore.getState().isListening).toBe(true);
+
+      act(() => mockEmit({ transcript: 'about it', isFinal: false }));
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: /send/i }));
+      });
+
+      expect(onTranscriptComplete).toHaveBeenCalledTimes(1);
+      expect(onTranscriptComplete).toHaveBeenCalledWith('let me think about it');
+    });
+
+    test('hold-to-talk: pauses and session ends do not send; letting go sends everything said', async () => {
+      const ref = React.createRef<SpeechInterfaceRef>();
+      const onTranscriptComplete = jest.fn();
+      render(<SpeechInterface ref={ref} onTranscriptComplete={onTranscriptComplete} interactionMode="hold-to-talk" />);
+
+      await act(async () => {
+        void ref.current!.startHold();
+      });
+      act(() => mockEmit({ transcript: 'first part', isFinal: true }));
+      await act(async () => {
+        jest.advanceTimersByTime(config.speech.interimSilenceTimeout * 2);
+        mockEndSession(); // Chrome stops after the utterance; the hold goes on
+      });
+      expect(onTranscriptComplete).not.toHaveBeenCalled();
+      expect(useClaraStore.getState().isListening).toBe(true);
+
+      act(() => mockEmit({ transcript: 'and the rest', isFinal: false }));
+      expect(useClaraStore.getState().interimTranscript).toBe('first part and the rest');
+      await act(async () => {
+        await ref.current!.endHold();
+      });
+
+      expect(onTranscriptComplete).toHaveBeenCalledTimes(1);
+      expect(onTranscriptComplete).toHaveBeenCalledWith('first part and the rest');
+      expect(useClaraStore.getState().isListening).toBe(false);
+    });
+  });
+
+  describe('voice activity detection', () => {
+    beforeEach(() => {
+      mockVadSupported = true;
+      (navigator.mediaDevices.getUserMedia as jest.Mock).mockResolvedValue({ getTracks: () => [] });
+    });
+
+    afterEach(() => {
+      mockVadSupported = false;
+      mockVad = null;
+    });
+
+    test("a slow speaker's pause does not end the turn; the end of their speech does, quickly", async () => {
+      const onTranscriptComplete = jest.fn();
+      render(<SpeechInterface onTranscriptComplete={onTranscriptComplete} />);
+      await startSession();
+      expect(mockVad).not.toBeNull();
+
+      mockVad!.speaking = true;
+      mockVad!.heardSpeech = true;
+      act(() => mockEmit({ transcript: 'so I was thinking', isFinal: false }));
+      await act(async () => {
+        jest.advanceTimersByTime(config.speech.interimSilenceTimeout * 2);
+      });
+      expect(onTranscriptComplete).not.toHaveBeenCalled(); // still talking, by the mic's account
+
+      mockVad!.speaking = false;
+      act(() => mockVad!.handlers.onSpeechEnd?.());
+      await act(async () => {
+        jest.advanceTimersByTime(config.speech.vad.settleMs);
+      });
+      expect(onTranscriptComplete).toHaveBeenCalledWith('so I was thinking');
+    });
+  });
 });
@@ -8,6 +8,10 @@ import {
   useClaraConversationState
 } from '@/store/claraStore';
 import { config } from '@/lib/config';
+import { getMicManager } from '@/lib/mic';
+import { isVadSupported, VoiceActivityDetector } from '@/lib/vad';
+import type { TtsVoiceSettings } from '@/lib/tts';
+import type { InteractionMode } from '@/store/settingsStore';
 
 interface SpeechInterfaceProps {
   onTranscriptComplete: (transcript: string) => void;
@@ -15,19 +19,45 @@ interface SpeechInterfaceProps {
   aiResponse?: string; // When this changes, speak it and auto-restart listening
   onAudioStream?: (stream: MediaStream | null) => void; // Callback to get audio stream for visualization
   hidden?: boolean; // Hide the interface but keep it functional
+  bargeIn?: boolean; // Keep the mic armed while Clara speaks so the user can cut in
+  isLikelyEcho?: (text: string) => boolean; // Clara's own voice picked up by the mic
+  onBargeIn?: () => void; // The user cut in: stop Clara, hand them the floor
+  interactionMode?: InteractionMode; // What a tap does, and whether silence ends the turn
+  language?: string; // BCP 47 tag to listen and speak in; config.speech.language when unset
+  voiceSettings?: TtsVoiceSettings; // How aiResponse is spoken
 }
 
-interface SpeechInterfaceRef {
+export interface SpeechInterfaceRef {
   handleToggle: () => void;
+  // Hold-to-talk: listen from press to release, then send
+  startHold: () => void;
+  endHold: () => void;
 }
 
-export const SpeechInterface = memo(forwardRef<SpeechInterfaceRef, SpeechInterfaceProps>(function SpeechInterface({ onTranscriptComplete, disabled = false, aiResponse, onAudioStream, hidden = false }, ref) {
+export const SpeechInterface = memo(forwardRef<SpeechInterfaceRef, SpeechInterfaceProps>(function SpeechInterface({ onTranscriptComplete, disabled = false, aiResponse, onAudioStream, hidden = false, bargeIn = false, isLikelyEcho, onBargeIn, interactionMode = 'hands-free', language = config.speech.language, voiceSettings }, ref) {
   const speechRef = useRef<SimpleSpeech | null>(null);
   const silenceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const manuallyStoppedRef = useRef(false);
   // Latest text heard this session (interim or final) + whether we already sent it.
   const lastHeardRef = useRef('');
   const finalizedRef = useRef(false);
+  // Each startListening is a session; a late callback from an older one must not act.
+  const sessionRef = useRef(0);
+  // Listening over Clara, but nothing has counted as the user speaking yet.
+  const bargeInPendingRef = useRef(false);
+  // Voice activity detection for the current session, when the browser can run it.
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const vadMicRef = useRef(false); // holding the shared mic for VAD
+  const visualizationMicRef = useRef(false); // holding it for onAudioStream
+  // Held down right now, and what earlier recognizer sessions heard during this turn — Chrome
+  // ends a session after each utterance, and a hold or a tap-to-toggle turn can span several.
+  const holdingRef = useRef(false);
+  const heldTextRef = useRef('');
+  // Read by callbacks that outlive a render: a mode switch mid-session applies at once
+  const interactionModeRef = useRef(interactionMode);
+  interactionModeRef.current = interactionMode;
+  // Only hands-free turns end on silence; otherwise the user's tap or release is the end of turn
+  const userEndsTurn = useCallback(() => holdingRef.current || interactionModeRef.current !== 'hands-free', []);
 
   const { isListening, isAISpeaking } = useClaraConversationState();
   const {
@@ -54,6 +84,15 @@ export const SpeechInterface = memo(forwardRef<SpeechInterfaceRef, SpeechInterfa
     speechRef.current = new SimpleSpeech();
   }, []);
 
+  // Picked up by the next listening session
+  useEffect(() => {
+    speechRef.current?.setLanguage(language);
+  }, [language]);
+
+  useEffect(() => {
+    if (voiceSettings) speechRef.current?.setVoiceSettings(voiceSettings);
+  }, [voiceSettings]);
+
   const stopSilenceTimer = useCallback(() => {
     if (silenceTimerRef.current) {
       clearTimeout(silenceTimerRef.current);
@@ -61,14 +100,33 @@ export const SpeechInterface = memo(forwardRef<SpeechInterfaceRef, SpeechInterfa
     }
   }, []);
 
+  const stopVad = useCallback(() => {
+    vadRef.current?.stop();
+    vadRef.current = null;
+    if (vadMicRef.current) getMicManager().release();
+    vadMicRef.current = false;
+  }, []);
+
+  useEffect(() => stopVad, [stopVad]);
+
+  const stopVisualization = useCallback(() => {
+    if (visualizationMicRef.current) getMicManager().release();
+    visualizationMicRef.current = false;
+    onAudioStream?.(null);
+  }, [onAudioStream]);
+
+  // Unmount only: a new onAudioStream mid-session must not drop the stream it's showing
+  useEffect(() => () => {
+    if (visualizationMicRef.current) getMicManager().release();
+  }, []);
+
   const stopListening = useCallback(async () => {
     stopSilenceTimer();
+    stopVad();
     await speechRef.current?.stopListening();
     setListening(false);
-    if (onAudioStream) {
-      onAudioStream(null);
-    }
-  }, [stopSilenceTimer, setListening, onAudioStream]);
+    stopVisualization();
+  }, [stopSilenceTimer, stopVad, setListening, stopVisualization]);
 
   // Single exit from a listening session: stop, then send if we heard anything.
   // Every finalize path (final result, silence watchdog, recognition ending) routes here.
@@ -83,58 +141,137 @@ export const SpeechInterface = memo(forwardRef<SpeechInterfaceRef, SpeechInterfa
 
   const armSilenceTimer = useCallback((text: string, delay: number) => {
     stopSilenceTimer();
-    silenceTimerRef.current = setTimeout(() => {
-      if (!manuallyStoppedRef.current) {
-        handleFinalTranscript(text);
+    const fire = () => {
+      if (manuallyStoppedRef.current) return;
+      // The mic still hears them: a slow speaker's pause is not the end of the turn.
+      if (vadRef.current?.speaking) {
+        silenceTimerRef.current = setTimeout(fire, delay);
+        return;
       }
-    }, delay);
+      handleFinalTranscript(text);
+    };
+    silenceTimerRef.current = setTimeout(fire, delay);
   }, [stopSilenceTimer, handleFinalTranscript]);
 
-  const startListening = useCallback(async () => {
-    setError(null);
+  // VAD runs beside the recognizer, not in front of it: if the mic or the audio graph fails,
+  // the session carries on with the timers alone.
+  const startVad = useCallback(async (session: number) => {
+    if (!config.speech.vad.enabled || !isVadSupported()) return;
+    try {
+      const stream = await getMicManager().acquire();
+      if (session !== sessionRef.current || finalizedRef.current) {
+        getMicManager().release();
+        return;
+      }
+      const vad = new VoiceActivityDetector({
+        // They stopped talking: end the turn as soon as the recognizer has caught up.
+        onSpeechEnd: () => {
+          if (session !== sessionRef.current || manuallyStoppedRef.current || userEndsTurn() || !lastHeardRef.current) return;
+          armSilenceTimer(lastHeardRef.current, config.speech.vad.settleMs);
+        },
+      });
+      vad.start(stream);
+      vadRef.current = vad;
+      vadMicRef.current = true;
+    } catch (e) {
+      console.warn('Voice activity detection unavailable, using silence timers:', e);
+    }
+  }, [armSilenceTimer, userEndsTurn]);
+
+  const isBargeInSpeech = useCallback((text: string) => {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    return words >= config.speech.bargeIn.minWords && !isLikelyEcho?.(text);
+  }, [isLikelyEcho]);
+
+  // A barge-in session listens without taking the floor: the store stays on "Clara speaking"
+  // until something the user said gets past the echo check.
+  // continueTurn: the recognizer ended mid-turn the user ends themselves — carry on in a fresh
+  // session, same turn.
+  const startListening = useCallback(async ({ bargeIn: overClara = false, continueTurn = false } = {}) => {
     const speech = speechRef.current;
     if (!speech?.canListen()) {
-      setError('Speech recognition not supported. Use Chrome/Edge.');
+      if (!overClara) setError('Speech recognition not supported in this browser. Use Chrome/Edge, or configure a local transcription server.');
       return;
     }
-    
-    clearTranscript();
-    setListening(true);
+
+    const session = ++sessionRef.current;
+    bargeInPendingRef.current = overClara;
+    if (!continueTurn) heldTextRef.current = '';
+    if (!overClara && !continueTurn) {
+      setError(null);
+      clearTranscript();
+      setListening(true);
+    }
     manuallyStoppedRef.current = false; // Reset flag when starting new listening session
     finalizedRef.current = false;
     lastHeardRef.current = '';
+    stopVad();
+    if (!overClara) void startVad(session); // over Clara it would mostly hear her
 
     try {
       // Get audio stream for visualization
-      if (onAudioStream) {
+      if (onAudioStream && !overClara && !continueTurn && !visualizationMicRef.current) {
         try {
-          const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+          const stream = await getMicManager().acquire();
+          visualizationMicRef.current = true;
           onAudioStream(stream);
         } catch (e) {
           console.warn('Could not get audio stream for visualization:', e);
         }
       }
 
+      // A quick hold can be released before the mic even opened
+      if (finalizedRef.current || session !== sessionRef.current) return;
+
       await speech.startListening(({ transcript: t, isFinal }) => {
         // Skip if user already manually stopped (prevents double-send on mobile)
-        if (manuallyStoppedRef.current) {
+        if (manuallyStoppedRef.current || session !== sessionRef.current) {
           return;
         }
 
-        const text = t.trim();
+        const text = [heldTextRef.current, t.trim()].filter(Boolean).join(' ');
+        if (bargeInPendingRef.current) {
+          if (!isBargeInSpeech(text)) return;
+          bargeInPendingRef.current = false;
+          onBargeIn?.();
+        }
         lastHeardRef.current = text;
 
+        // Held or tap-to-toggle: letting go or tapping is the only end of turn
+        if (userEndsTurn()) {
+          setTranscript(text, !isFinal);
+          return;
+        }
+
         if (isFinal) {
           setTranscript(text, false);
-          armSilenceTimer(text, config.speech.silenceTimeout);
+          // Already quiet by the VAD's account: no need to wait out the full silence timeout.
+          const vad = vadRef.current;
+          armSilenceTimer(text, vad?.heardSpeech && !vad.speaking ? config.speech.vad.settleMs : config.speech.silenceTimeout);
         } else {
-          setTranscript(t, true);
+          setTranscript(text, true);
           // Watchdog: Chrome sometimes never marks a result final after the user goes
           // quiet, so nothing above ever fires and the UI sticks on "Listening...".
           armSilenceTimer(text, config.speech.interimSilenceTimeout);
         }
       });
 
+      if (session !== sessionRef.current) return;
+
+      if (userEndsTurn() && !finalizedRef.current && !manuallyStoppedRef.current && !bargeInPendingRef.current) {
+        heldTextRef.current = lastHeardRef.current || heldTextRef.current;
+        void startListeningRef.current({ continueTurn: true });
+        return;
+      }
+
+      // Chrome ends a session after each utterance — here, one that was only Clara's echo.
+      // Re-arm for as long as she keeps talking.
+      if (bargeInPendingRef.current) {
+        bargeInPendingRef.current = false;
+        if (useClaraStore.getState().phase === 'speaking') void startListeningRef.current({ bargeIn: true });
+        return;
+      }
+
       // Recognition ended on its own (Chrome stops after an utterance, or fired
       // 'no-speech'). Finalize what we heard — with nothing heard this just clears
       // isListening so the orb and button leave the listening state.
@@ -142,14 +279,38 @@ export const SpeechInterface = memo(forwardRef<SpeechInterfaceRef, SpeechInterfa
         await handleFinalTranscript(lastHeardRef.current);
       }
     } catch (e) {
+      if (session !== sessionRef.current) return;
+      // Failing to arm over Clara is not the user's problem — she just can't be cut off.
+      if (bargeInPendingRef.current) {
+        bargeInPendingRef.current = false;
+        console.warn('Barge-in listening failed:', e);
+        return;
+      }
       const message = e instanceof Error ? e.message : 'Failed to start listening';
       setError(message);
       setListening(false);
-      if (onAudioStream) {
-        onAudioStream(null);
-      }
+      stopVisualization();
     }
-  }, [clearTranscript, setListening, setError, setTranscript, armSilenceTimer, handleFinalTranscript, onAudioStream]);
+  }, [clearTranscript, setListening, setError, setTranscript, armSilenceTimer, handleFinalTranscript, onAudioStream, isBargeInSpeech, onBargeIn, startVad, stopVad, stopVisualization, userEndsTurn]);
+
+  const startListeningRef = useRef(startListening);
+  startListeningRef.current = startListening;
+
+  // She finished without being cut off. Drop the session so the auto-restart that follows
+  // gets a recognizer of its own instead of this one's leftovers.
+  const abandonBargeIn = useCallback(() => {
+    if (!bargeInPendingRef.current) return;
+    bargeInPendingRef.current = false;
+    sessionRef.current++;
+    void speechRef.current?.stopListening();
+  }, []);
+
+  // Arm the mic for barge-in whenever Clara starts talking.
+  useEffect(() => {
+    if (!bargeIn || disabled || !isAISpeaking) return;
+    void startListeningRef.current({ bargeIn: true });
+    return abandonBargeIn;
+  }, [bargeIn, disabled, isAISpeaking, abandonBargeIn]);
 
   // Handle AI response - speak it and auto-restart listening
   const lastProcessedResponse = useRef<string>('');
@@ -163,7 +324,8 @@ export const SpeechInterface = memo(forwardRef<SpeechInterfaceRef, SpeechInterfa
         await speechRef.current?.speak(aiResponse);
         setAISpeaking(false);
 
-        // Auto-start listening after AI finishes speaking
+        // Auto-start listening after AI finishes speaking — hands-free only; otherwise the user starts each turn
+        if (interactionModeRef.current !== 'hands-free') return;
         setTimeout(() => {
           startListening();
         }, config.aiSpeech.autoStartListeningDelay);
@@ -174,32 +336,30 @@ export const SpeechInterface = memo(forwardRef<SpeechInterfaceRef, SpeechInterfa
   }, [aiResponse, disabled]);
 
   const handleToggle = async () => {
-    if (disabled || isAISpeaking) return;
+    if (disabled) return;
+
+    if (isAISpeaking) {
+      if (!bargeIn) return;
+      // Tap to cut Clara off. A barge-in session is usually already listening — it just
+      // takes the floor; otherwise open a fresh one.
+      const armed = bargeInPendingRef.current;
+      bargeInPendingRef.current = false;
+      onBargeIn?.();
+      if (!armed) await startListening();
+      return;
+    }
 
     if (isListening) {
-      // On mobile: clicking while listening sends the transcript (manual stop & send)
-      // On desktop: clicking while listening just pauses (auto-stop via silence detection works)
-      if (isMobileDevice) {
-        const currentTranscript = transcript || interimTranscript;
-
-        // Set flag BEFORE stopping to prevent auto-stop from also firing
-        manuallyStoppedRef.current = true;
-        stopSilenceTimer(); // Cancel any pending auto-stop timer
-
-        await stopListening();
-
-        if (currentTranscript.trim()) {
-          // Mobile: send transcript immediately
-          onTranscriptComplete(currentTranscript.trim());
-        } else {
-          // No transcript, just pause
-          setPaused(true);
-        }
-      } else {
-        // Desktop: just pause. Flag it so the session-ended handler doesn't send.
+      const heard = lastHeardRef.current || heldTextRef.current || transcript || interimTranscript;
+      // Silence ends a hands-free turn, so a tap is a pause, not a send — except on touch
+      // devices, where tapping has always sent what was heard
+      if (interactionMode === 'hands-free' && (!isMobileDevice || !heard.trim())) {
         manuallyStoppedRef.current = true;
         await stopListening();
         setPaused(true);
+      } else {
+        // The tap is the end of the turn
+        await handleFinalTranscript(heard);
       }
     } else if (isPaused) {
       setPaused(false);
@@ -210,8 +370,8 @@ export const SpeechInterface = memo(forwardRef<SpeechInterfaceRef, SpeechInterfa
   };
 
   const getButtonText = () => {
-    if (isAISpeaking) return 'Speaking...';
-    if (isListening) return 'Pause';
+    if (isAISpeaking) return bargeIn ? 'Interrupt' : 'Speaking...';
+    if (isListening) return interactionMode === 'hands-free' && !isMobileDevice ? 'Pause' : 'Send';
     if (isPaused) return 'Resume';
     return 'Tap to talk';
   };
@@ -223,9 +383,42 @@ export const SpeechInterface = memo(forwardRef<SpeechInterfaceRef, SpeechInterfa
     return 'Tap to start';
   };
 
-  // Expose handleToggle to parent components
+  const startHold = async () => {
+    if (disabled || holdingRef.current) return;
+    holdingRef.current = true;
+    heldTextRef.current = '';
+
+    if (isAISpeaking) {
+      if (!bargeIn) {
+        holdingRef.current = false;
+        return;
+      }
+      // Same as tapping to interrupt: an armed barge-in session just takes the floor
+      const armed = bargeInPendingRef.current;
+      bargeInPendingRef.current = false;
+      onBargeIn?.();
+      if (armed) return;
+    } else if (isListening) {
+      return;
+    }
+    if (isPaused) setPaused(false);
+    await startListening();
+  };
+
+  const endHold = async () => {
+    if (!holdingRef.current) return;
+    holdingRef.current = false;
+    // A session restarted mid-hold may not have heard anything new yet
+    const heard = lastHeardRef.current || heldTextRef.current;
+    heldTextRef.current = '';
+    await handleFinalTranscript(heard);
+  };
+
+  // Expose the controls to parent components
   useImperativeHandle(ref, () => ({
-    handleToggle
+    handleToggle,
+    startHold,
+    endHold,
   }));
 
   if (hidden) {
@@ -237,7 +430,7 @@ export const SpeechInterface = memo(forwardRef<SpeechInterfaceRef, SpeechInterfa
       <Button 
         onClick={handleToggle} 
         className="w-48 h-48 rounded-full text-lg"
-        disabled={disabled || isAISpeaking}
+        disabled={disabled || (isAISpeaking && !bargeIn)}
       >
         {getButtonText()}
       </Button>
@@ -2,12 +2,15 @@
 
 import React, { useEffect, useRef, FC } from "react";
 import { Renderer, Program, Mesh, Triangle, Vec3 } from "ogl";
+import { getMicManager } from "@/lib/mic";
 import { cn } from "@/lib/utils";
 
 interface VoicePoweredOrbProps {
   className?: string;
   hue?: number;
   enableVoiceControl?: boolean;
+  // Clara's voice (or any node in the app's audio graph): while set, the orb moves with it
+  outputSource?: AudioNode | null;
   voiceSensitivity?: number;
   maxRotationSpeed?: number;
   maxHoverIntensity?: number;
@@ -18,6 +21,7 @@ export const VoicePoweredOrb: FC<VoicePoweredOrbProps> = ({
   className,
   hue = 0,
   enableVoiceControl = true,
+  outputSource = null,
   voiceSensitivity = 1.5,
   maxRotationSpeed = 1.2,
   maxHoverIntensity = 0.8,
@@ -29,6 +33,9 @@ export const VoicePoweredOrb: FC<VoicePoweredOrbProps> = ({
   const microphoneRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const dataArrayRef = useRef<Uint8Array<ArrayBuffer> | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
+  const micGenerationRef = useRef(0); // bumped by every stop, so a slow start knows it's been superseded
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
+  const outputDataRef = useRef<Uint8Array<ArrayBuffer> | null>(null);
 
   const vert = /* glsl */ `
     precision highp float;
@@ -190,18 +197,18 @@ export const VoicePoweredOrb: FC<VoicePoweredOrbProps> = ({
   `;
 
   // Voice analysis function
-  const analyzeAudio = () => {
-    if (!analyserRef.current || !dataArrayRef.current) return 0;
+  const analyzeAudio = (analyser: AnalyserNode | null, data: Uint8Array<ArrayBuffer> | null) => {
+    if (!analyser || !data) return 0;
 
-    analyserRef.current.getByteFrequencyData(dataArrayRef.current);
+    analyser.getByteFrequencyData(data);
 
     // Calculate RMS (Root Mean Square) for better voice detection
     let sum = 0;
-    for (let i = 0; i < dataArrayRef.current.length; i++) {
-      const value = dataArrayRef.current[i] / 255;
+    for (let i = 0; i < data.length; i++) {
+      const value = data[i] / 255;
       sum += value * value;
     }
-    const rms = Math.sqrt(sum / dataArrayRef.current.length);
+    const rms = Math.sqrt(sum / data.length);
 
     // Apply sensitivity and boost the signal
     const level = Math.min(rms * voiceSensitivity * 3.0, 1);
@@ -211,12 +218,11 @@ export const VoicePoweredOrb: FC<VoicePoweredOrbProps> = ({
 
   // Stop microphone and cleanup
   const stopMicrophone = () => {
+    micGenerationRef.current++;
     try {
-      // Stop all tracks in the media stream
+      // Let go of the shared mic; it closes once nothing else is listening
       if (mediaStreamRef.current) {
-        mediaStreamRef.current.getTracks().forEach(track => {
-          track.stop();
-        });
+        getMicManager().release();
         mediaStreamRef.current = null;
       }
 
@@ -243,20 +249,41 @@ export const VoicePoweredOrb: FC<VoicePoweredOrbProps> = ({
     }
   };
 
+  // Listen in on an output node. The analyser is a dead end — tapping must not play it twice.
+  const tapOutput = (source: AudioNode) => {
+    const analyser = source.context.createAnalyser();
+    analyser.fftSize = 512;
+    analyser.smoothingTimeConstant = 0.6; // synthesized speech is steadier than a room mic
+    analyser.minDecibels = -90;
+    analyser.maxDecibels = -10;
+    source.connect(analyser);
+    outputAnalyserRef.current = analyser;
+    outputDataRef.current = new Uint8Array(new ArrayBuffer(analyser.frequencyBinCount));
+  };
+
+  const untapOutput = (source: AudioNode | null) => {
+    try {
+      if (source && outputAnalyserRef.current) source.disconnect(outputAnalyserRef.current);
+    } catch { /* already gone with its context */ }
+    outputAnalyserRef.current = null;
+    outputDataRef.current = null;
+  };
+
   // Initialize microphone access
   const initMicrophone = async () => {
     try {
       // Clean up any existing microphone first
       stopMicrophone();
-
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: false,  // Better for voice analysis
-          noiseSuppression: false,  // Better for voice analysis
-          autoGainControl: false,   // Better for voice analysis
-          sampleRate: 44100,
-        },
-      });
+      const generation = micGenerationRef.current;
+
+      // The shared mic, as recognition hears it — a second, unprocessed stream would mean a second
+      // prompt on some browsers and could land on a different device
+      const stream = await getMicManager().acquire();
+      // The effect was cleaned up while the mic opened: nothing is left to hand it back but us
+      if (generation !== micGenerationRef.current) {
+        getMicManager().release();
+        return false;
+      }
 
       // Store the stream reference for cleanup
       mediaStreamRef.current = stream;
@@ -266,6 +293,7 @@ export const VoicePoweredOrb: FC<VoicePoweredOrbProps> = ({
       // Resume audio context if needed
       if (audioContextRef.current.state === 'suspended') {
         await audioContextRef.current.resume();
+        if (generation !== micGenerationRef.current) return false; // stopMicrophone() already cleaned up
       }
 
       analyserRef.current = audioContextRef.current.createAnalyser();
@@ -364,9 +392,12 @@ export const VoicePoweredOrb: FC<VoicePoweredOrbProps> = ({
       let lastTime = 0;
       let currentRot = 0;
       let voiceLevel = 0;
+      let speakingLevel = 0;
       const baseRotationSpeed = 0.3;
       let isMicrophoneInitialized = false;
 
+      if (outputSource) tapOutput(outputSource);
+
       // Initialize or stop microphone based on voice control setting
       if (enableVoiceControl) {
         initMicrophone().then((success) => {
@@ -388,14 +419,26 @@ export const VoicePoweredOrb: FC<VoicePoweredOrbProps> = ({
         program.uniforms.hue.value = hue;
 
         // Handle voice input
-        if (enableVoiceControl && isMicrophoneInitialized) {
-          voiceLevel = analyzeAudio();
+        const isHearingUser = enableVoiceControl && isMicrophoneInitialized;
+        voiceLevel = isHearingUser ? analyzeAudio(analyserRef.current, dataArrayRef.current) : 0;
 
-          // Notify parent component about voice detection
-          if (onVoiceDetected) {
-            onVoiceDetected(voiceLevel > 0.1);
-          }
+        // Notify parent component about voice detection
+        if (onVoiceDetected) {
+          onVoiceDetected(voiceLevel > 0.1);
+        }
 
+        // Clara's level swells quickly and settles slowly, so she reads as breathing, not flickering
+        const outputLevel = analyzeAudio(outputAnalyserRef.current, outputDataRef.current);
+        speakingLevel += (outputLevel - speakingLevel) * (outputLevel > speakingLevel ? 0.3 : 0.08);
+
+        // Clara's turn unless the user is audibly talking over her: the orb turns the other way,
+        // slower, and swells rather than ripples — so it's clear who is speaking. Keeps turning
+        // through silence too: browser voices play outside Web Audio and can't be heard here.
+        if (outputSource && voiceLevel <= 0.1) {
+          currentRot -= dt * (baseRotationSpeed * 0.5 + speakingLevel * maxRotationSpeed);
+          program.uniforms.hover.value = Math.min(speakingLevel * 1.5, 1.0);
+          program.uniforms.hoverIntensity.value = Math.min(speakingLevel * maxHoverIntensity * 0.4, maxHoverIntensity);
+        } else if (isHearingUser) {
           // Map voice level to rotation speed with more visible effect
           const voiceRotationSpeed = baseRotationSpeed + (voiceLevel * maxRotationSpeed * 2.0);
 
@@ -411,9 +454,6 @@ export const VoicePoweredOrb: FC<VoicePoweredOrbProps> = ({
           // Keep effects at 0 when not using voice control
           program.uniforms.hover.value = 0;
           program.uniforms.hoverIntensity.value = 0;
-          if (onVoiceDetected) {
-            onVoiceDetected(false);
-          }
         }
 
         program.uniforms.rot.value = currentRot;
@@ -444,6 +484,7 @@ export const VoicePoweredOrb: FC<VoicePoweredOrbProps> = ({
 
         // Stop microphone and clean up audio resources
         stopMicrophone();
+        untapOutput(outputSource);
 
         if (glContext) {
           glContext.getExtension("WEBGL_lose_context")?.loseContext();
@@ -463,6 +504,7 @@ export const VoicePoweredOrb: FC<VoicePoweredOrbProps> = ({
   }, [
     hue,
     enableVoiceControl,
+    outputSource,
     voiceSensitivity,
     maxRotationSpeed,
     maxHoverIntensity,
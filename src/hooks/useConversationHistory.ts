@@ -0,0 +1,61 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth, DEV_AUTH_BYPASS } from '@/components/shared/AuthProvider';
+import { conversationHistoryApi } from '@/services/conversationHistoryApi';
+import { type ConversationSummary } from '@/types/conversation';
+import { groupConversations } from '@/utils/conversation-history';
+
+const HISTORY_LIMIT = 500; // turns, newest first
+
+// signed-out: nobody to load history for. loading: waiting on auth, the token or the first fetch.
+export type ConversationHistoryStatus = 'signed-out' | 'loading' | 'ready' | 'error';
+
+interface UseConversationHistoryResult {
+  status: ConversationHistoryStatus;
+  conversations: ConversationSummary[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export function useConversationHistory(): UseConversationHistoryResult {
+  const { token, isAuthenticated, isLoading: authLoading } = useAuth();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasLoaded, setHasLoaded] = useState(false);
+
+  // Wait for the token — a header-less request would be answered as the dev user, or refused.
+  const canLoad = isAuthenticated && (!!token || DEV_AUTH_BYPASS);
+
+  const refresh = useCallback(async () => {
+    if (!canLoad) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const rows = await conversationHistoryApi.getLog({ limit: HISTORY_LIMIT }, token);
+      setConversations(groupConversations(rows));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch conversation history';
+      setError(errorMessage);
+      console.error('Error fetching conversation history:', err);
+    } finally {
+      setIsLoading(false);
+      setHasLoaded(true);
+    }
+  }, [canLoad, token]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const status: ConversationHistoryStatus =
+    !authLoading && !isAuthenticated ? 'signed-out'
+      : !canLoad || isLoading || !hasLoaded ? 'loading'
+      : error ? 'error'
+      : 'ready';
+
+  return { status, conversations, isLoading, error, refresh };
+}
@@ -77,6 +77,23 @@ describe('useSentimentAnalysis', () => {
     });
   });
 
+  describe('language', () => {
+    it('scores with the lexicon for the language', () => {
+      const { result } = renderHook(() => useSentimentAnalysis('es-ES'));
+
+      const sentiment = result.current.analyzeSentiment('estoy muy triste y preocupada');
+
+      expect(sentiment.sentiment).toBe('negative');
+      expect(sentiment.emotionalKeywords).toEqual(['triste', 'preocupada']);
+    });
+
+    it('falls back to English for a language without a lexicon', () => {
+      const { result } = renderHook(() => useSentimentAnalysis('nl-NL'));
+
+      expect(result.current.analyzeSentiment('this is great').sentiment).toBe('positive');
+    });
+  });
+
   describe('getConversationIntensity', () => {
     it('should return low intensity for few messages', () => {
       const { result } = renderHook(() => useSentimentAnalysis());
@@ -0,0 +1,57 @@
+import { AudioGraph } from './audio-graph';
+
+type FakeGain = { gain: { value: number; targets: number[]; cancelScheduledValues: jest.Mock; setTargetAtTime: jest.Mock }; connect: jest.Mock };
+
+const gains: FakeGain[] = [];
+const fakeCtx = {
+  currentTime: 5,
+  state: 'running',
+  destination: {},
+  createGain: () => {
+    const node: FakeGain = {
+      gain: {
+        value: 1,
+        targets: [],
+        cancelScheduledValues: jest.fn(),
+        setTargetAtTime: jest.fn((target: number) => { node.gain.targets.push(target); }),
+      },
+      connect: jest.fn(),
+    };
+    gains.push(node);
+    return node;
+  },
+};
+
+const options = { duckLevel: 0.2, duckSeconds: 0.3, releaseSeconds: 1.2, crossfadeSeconds: 0.8 };
+
+describe('AudioGraph', () => {
+  beforeEach(() => {
+    gains.length = 0;
+    Object.defineProperty(window, 'AudioContext', { value: jest.fn(() => fakeCtx), writable: true, configurable: true });
+  });
+
+  it('ducks the ambient buses under the conversation, but never the voice', () => {
+    const graph = new AudioGraph(options);
+    const voice = graph.bus('voice') as unknown as FakeGain;
+    const heartbeat = graph.bus('heartbeat') as unknown as FakeGain;
+
+    graph.duck(true);
+    expect(heartbeat.gain.targets).toEqual([0.2]);
+    expect(voice.gain.setTargetAtTime).not.toHaveBeenCalled();
+
+    graph.duck(false);
+    expect(heartbeat.gain.targets).toEqual([0.2, 1]);
+    const [[, , duckConstant], [, , releaseConstant]] = heartbeat.gain.setTargetAtTime.mock.calls;
+    expect(releaseConstant).toBeGreaterThan(duckConstant); // quick to get out of the way, slow to return
+  });
+
+  it('builds buses already ducked, and keeps the master volume set before any audio played', () => {
+    const graph = new AudioGraph(options);
+    graph.setMasterVolume(0.5);
+    graph.duck(true);
+
+    const master = (graph.context(), gains[0]!);
+    expect(master.gain.value).toBe(0.5);
+    expect((graph.bus('ui') as unknown as FakeGain).gain.value).toBe(0.2);
+  });
+});
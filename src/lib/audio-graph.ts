@@ -0,0 +1,100 @@
+'use client';
+
+import { config } from '@/lib/config';
+
+// Everything the app plays goes through one of these, and all of them through one master gain.
+export type AudioBus = 'voice' | 'heartbeat' | 'ui';
+
+export interface AudioMixerOptions {
+  duckLevel: number;
+  duckSeconds: number;
+  releaseSeconds: number;
+  crossfadeSeconds: number;
+}
+
+// Ducked under the conversation; the voice bus is the conversation.
+const AMBIENT_BUSES: readonly AudioBus[] = ['heartbeat', 'ui'];
+
+// Master volume changes are short ramps, not jumps — a jump clicks.
+const VOLUME_RAMP_S = 0.05;
+
+// Glide an AudioParam to `target` over roughly `seconds`, from wherever it is now — including
+// mid-way through another glide. setTargetAtTime is ~95% there after three time constants.
+export function rampTo(param: AudioParam, target: number, seconds: number, now: number) {
+  param.cancelScheduledValues(now);
+  param.setTargetAtTime(target, now, Math.max(seconds, 0.001) / 3);
+}
+
+// The app's one AudioContext, and the mixer on it. Separate contexts can't share nodes, so
+// neither ducking nor recording could reach across them.
+export class AudioGraph {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private buses = new Map<AudioBus, GainNode>();
+  private masterVolume = 1;
+  private ducked = false;
+
+  constructor(readonly options: AudioMixerOptions = config.audio.mixer) {}
+
+  // Created on first use. Browsers only let audio start after a gesture, and every caller is
+  // downstream of one — so resuming here is silent.
+  context(): AudioContext {
+    if (!this.ctx) {
+      const Ctor = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+      this.ctx = new Ctor();
+      this.master = this.ctx.createGain();
+      this.master.gain.value = this.masterVolume;
+      this.master.connect(this.ctx.destination);
+    }
+    if (this.ctx.state === 'suspended') void this.ctx.resume();
+    return this.ctx;
+  }
+
+  // The bus to connect a source to. Its level is the mixer's: sources keep their own gain.
+  bus(name: AudioBus): GainNode {
+    const ctx = this.context();
+    let bus = this.buses.get(name);
+    if (!bus) {
+      bus = ctx.createGain();
+      bus.gain.value = this.levelFor(name);
+      bus.connect(this.master!);
+      this.buses.set(name, bus);
+    }
+    return bus;
+  }
+
+  // Safe before any audio has played: the level is kept for when the graph is built.
+  setMasterVolume(volume: number) {
+    this.masterVolume = Math.min(Math.max(volume, 0), 1);
+    if (this.ctx && this.master) rampTo(this.master.gain, this.masterVolume, VOLUME_RAMP_S, this.ctx.currentTime);
+  }
+
+  // Someone is talking: bring the ambient buses down, quickly — or back up, slowly.
+  duck(ducked: boolean) {
+    if (ducked === this.ducked) return;
+    this.ducked = ducked;
+    if (!this.ctx) return;
+    const seconds = ducked ? this.options.duckSeconds : this.options.releaseSeconds;
+    for (const name of AMBIENT_BUSES) {
+      const bus = this.buses.get(name);
+      if (bus) rampTo(bus.gain, this.levelFor(name), seconds, this.ctx.currentTime);
+    }
+  }
+
+  isDucked(): boolean {
+    return this.ducked;
+  }
+
+  private levelFor(name: AudioBus): number {
+    return this.ducked && AMBIENT_BUSES.includes(name) ? this.options.duckLevel : 1;
+  }
+}
+
+let audioGraphInstance: AudioGraph | null = null;
+
+export const getAudioGraph = (): AudioGraph => {
+  if (!audioGraphInstance) {
+    audioGraphInstance = new AudioGraph();
+  }
+  return audioGraphInstance;
+};
@@ -1,12 +1,14 @@
 'use client';
 
 import { EmotionalMood } from '@/components/clara/EmotionalBackdrop';
+import { getAudioGraph, rampTo } from '@/lib/audio-graph';
 
 // Audio manager for heartbeat and other audio functionality
 export class AudioManager {
   private audioContext: AudioContext | null = null;
   private audioBuffers: Map<string, AudioBuffer> = new Map();
-  private activeHeartbeatNode: AudioBufferSourceNode | null = null;
+  // The rhythm playing now, behind its own fade so a new one can crossfade in over it
+  private activeHeartbeat: { source: AudioBufferSourceNode; fade: GainNode; mood: EmotionalMood; bpm: number } | null = null;
   private gainNode: GainNode | null = null;
   private isInitialized = false;
   private isMuted = false;
@@ -37,9 +39,10 @@ export class AudioManager {
 
   private initialize() {
     try {
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const graph = getAudioGraph();
+      this.audioContext = graph.context();
       this.gainNode = this.audioContext.createGain();
-      this.gainNode.connect(this.audioContext.destination);
+      this.gainNode.connect(graph.bus('heartbeat'));
       this.gainNode.gain.setValueAtTime(this.isMuted ? 0 : this.volume, this.audioContext.currentTime);
       this.isInitialized = true;
     } catch (error) {
@@ -114,11 +117,13 @@ export class AudioManager {
     }
   }
 
-  // Play heartbeat audio with BPM timing
+  // Play heartbeat audio with BPM timing, crossfading from whatever rhythm was playing. Asking
+  // for the rhythm that's already playing changes nothing.
   playHeartbeat(mood: EmotionalMood, bpm: number): void {
     if (!this.audioContext || !this.isInitialized || this.isMuted) return;
+    if (this.activeHeartbeat?.mood === mood && this.activeHeartbeat.bpm === bpm) return;
 
-    this.stopHeartbeat(); // Stop any existing heartbeat
+    this.stopHeartbeat(); // fades out while the new one fades in
 
     // Ensure synthetic heartbeat exists for this mood
     if (!this.audioBuffers.has(mood)) {
@@ -133,12 +138,11 @@ export class AudioManager {
     try {
       const source = this.audioContext.createBufferSource();
       source.buffer = buffer;
-
-      if (this.gainNode) {
-        source.connect(this.gainNode);
-      } else {
-        source.connect(this.audioContext.destination);
-      }
+      const fade = this.audioContext.createGain();
+      fade.gain.value = 0;
+      source.connect(fade);
+      fade.connect(this.gainNode ?? this.audioContext.destination);
+      rampTo(fade.gain, 1, getAudioGraph().options.crossfadeSeconds, this.audioContext.currentTime);
 
       // Calculate loop timing based on BPM
       const beatInterval = 60 / bpm; // seconds per beat
@@ -146,22 +150,25 @@ export class AudioManager {
       source.loopEnd = Math.min(buffer.duration, beatInterval);
 
       source.start(this.audioContext.currentTime);
-      this.activeHeartbeatNode = source;
+      this.activeHeartbeat = { source, fade, mood, bpm };
     } catch (error) {
       console.error('Failed to play heartbeat:', error);
     }
   }
 
-  // Stop heartbeat audio
+  // Fade the heartbeat out, then stop it — never a cut mid-beat
   stopHeartbeat(): void {
-    if (this.activeHeartbeatNode) {
-      try {
-        this.activeHeartbeatNode.stop();
-        this.activeHeartbeatNode.disconnect();
-      } catch (error) {
-        console.warn('Error stopping heartbeat:', error);
-      }
-      this.activeHeartbeatNode = null;
+    if (!this.activeHeartbeat || !this.audioContext) return;
+    const { source, fade } = this.activeHeartbeat;
+    this.activeHeartbeat = null;
+    const seconds = getAudioGraph().options.crossfadeSeconds;
+    const now = this.audioContext.currentTime;
+    try {
+      rampTo(fade.gain, 0, seconds, now);
+      source.onended = () => fade.disconnect();
+      source.stop(now + seconds);
+    } catch (error) {
+      console.warn('Error stopping heartbeat:', error);
     }
   }
 
@@ -212,10 +219,9 @@ export class AudioManager {
   dispose(): void {
     this.stopHeartbeat();
 
-    if (this.audioContext) {
-      this.audioContext.close();
-      this.audioContext = null;
-    }
+    // The context is the shared graph's: other audio still plays through it
+    this.gainNode?.disconnect();
+    this.audioContext = null;
 
     this.audioBuffers.clear();
     this.gainNode = null;
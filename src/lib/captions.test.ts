@@ -0,0 +1,19 @@
+import { wordsReached } from './captions';
+
+describe('wordsReached', () => {
+  it('counts the word being spoken as reached', () => {
+    expect(wordsReached('Hello there.', 0)).toBe(1);
+    expect(wordsReached('Hello there.', 1)).toBe(2);
+  });
+
+  it('gives long words a longer share of the audio', () => {
+    // "I " is 2 of 25 characters, so a quarter of the way in is still inside "understand"
+    expect(wordsReached('I understand completely.', 0.25)).toBe(2);
+    expect(wordsReached('I understand completely.', 0.6)).toBe(3);
+  });
+
+  it('lines up with a browser voice reporting the character it has reached', () => {
+    const text = 'Nice to meet you.';
+    expect(wordsReached(text, text.indexOf('meet') / text.length)).toBe(3);
+  });
+});
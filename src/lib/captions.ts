@@ -0,0 +1,26 @@
+// What Clara is saying this moment: the sentence being heard, and how far through its audio
+// playback is (0–1).
+export interface Caption {
+  text: string;
+  progress: number;
+}
+
+export type CaptionSize = 'small' | 'medium' | 'large';
+
+// How many of `text`'s words playback has reached at `progress` — the one being spoken
+// included. Audio only tells us time, and time follows letters more closely than word count,
+// so each word gets a share the size of its characters plus the space after it. That is also
+// how browser voices report position (a character index), so both kinds of speech line up.
+export function wordsReached(text: string, progress: number): number {
+  const words = text.split(/\s+/).filter(Boolean);
+  const total = words.reduce((sum, word) => sum + word.length + 1, 0);
+  const at = Math.min(Math.max(progress, 0), 1) * total;
+  let start = 0;
+  let reached = 0;
+  for (const word of words) {
+    if (start > at) break;
+    reached++;
+    start += word.length + 1;
+  }
+  return reached;
+}
@@ -4,6 +4,12 @@ export const config = {
   api: {
     baseUrl: process.env.NEXT_PUBLIC_API_URL || '',
     timeout: 30000, // 30 seconds
+    // Dropped conversation streams: retried before the first chunk, resumed after it
+    streamRetry: {
+      maxRetries: 3,
+      baseDelayMs: 500, // doubles each attempt
+      maxDelayMs: 4000,
+    },
   },
   
   // Speech recognition configuration
@@ -12,9 +18,40 @@ export const config = {
     // Chrome sometimes stops emitting results after the user goes quiet without ever
     // marking one final. Watchdog: finalize the interim text after this much silence.
     interimSilenceTimeout: 1800, // ms of no new results while listening
-    language: 'en-US',
+    language: 'en-US', // when the browser's locale isn't one Clara speaks
     interimResults: true,
     continuous: false,
+    // Barge-in: the mic stays armed while Clara talks, and speaking over her cuts her off.
+    bargeIn: {
+      enabled: true,
+      minWords: 2, // a cough or a lone "mm" is not an interruption
+      echoOverlap: 0.6, // share of heard words she said this turn that marks it as her echo
+    },
+    // Voice activity detection: ends the turn when the user stops talking, with the timers above
+    // as the fallback where it can't run
+    vad: {
+      enabled: true,
+      frameMs: 30,
+      calibrationMs: 300, // first frames only learn the room's noise floor
+      onsetDb: 12, // above the noise floor to start counting as speech
+      offsetDb: 6, // above the floor to keep counting once started
+      minSpeechMs: 120, // shorter bursts (a click, a cough) aren't speech
+      maxSpeechMs: 20000, // unbroken "speech" longer than this is noise; the floor re-learns
+      endOfSpeechMs: 700, // quiet after speech that ends the turn
+      noiseAdaptRate: 0.05, // how fast the floor follows the room between utterances
+      minSpeechBandRatio: 0.4, // share of power in 300–3400 Hz; fans and hum sit below it
+      settleMs: 250, // after speech ends, for the recognizer's last words to land
+      debugMeter: process.env.NEXT_PUBLIC_VAD_DEBUG === 'true',
+    },
+    // Speech-to-text engines in order of preference; the first this browser can run is used
+    stt: {
+      providers: (process.env.NEXT_PUBLIC_STT_PROVIDERS || 'web-speech,local-server').split(',').map((id) => id.trim()),
+      localServer: {
+        url: process.env.NEXT_PUBLIC_STT_SERVER_URL || '', // ws(s):// — unset disables the engine
+        chunkMs: 250, // MediaRecorder timeslice: how often audio goes out
+        noSpeechTimeout: 8000, // ms with no transcript before the session ends
+      },
+    },
   },
   
   // AI speech configuration
@@ -26,15 +63,61 @@ export const config = {
       'Alex',
       'Google US English',
     ],
+    // Text-to-speech engines, tried in order until one speaks the sentence
+    tts: {
+      providers: (process.env.NEXT_PUBLIC_TTS_PROVIDERS || 'voice-server,web-speech').split(',').map((id) => id.trim()),
+      healthRecheckMs: 30000, // a provider that failed sits out this long unless its health check passes sooner
+      // Synthesized sentences kept for reuse: greetings, fillers and error lines come back often
+      cache: {
+        maxEntries: 200,
+        maxBytes: 48 * 1024 * 1024, // decoded float32 at 24 kHz: ~8 minutes of speech
+        persist: true, // also keep them in IndexedDB, so they survive a reload
+        maxPersistedEntries: 500,
+      },
+      voiceServer: {
+        url: process.env.NEXT_PUBLIC_VOICE_SERVER_URL || 'http://localhost:8880',
+      },
+      openAi: {
+        url: process.env.NEXT_PUBLIC_OPENAI_TTS_URL || '',
+        model: process.env.NEXT_PUBLIC_OPENAI_TTS_MODEL || 'tts-1',
+        voice: process.env.NEXT_PUBLIC_OPENAI_TTS_VOICE || 'nova',
+        // Shipped to the browser — only for self-hosted servers, never a real OpenAI key
+        apiKey: process.env.NEXT_PUBLIC_OPENAI_TTS_API_KEY || '',
+      },
+    },
   },
   
   // Session configuration
   session: {
     defaultPersonality: 'friendly' as const,
     updateInterval: 1000, // ms for session duration updates
+    maxPersistedMessages: 500, // history kept across reloads; older turns drop off
   },
   
   
+  // Shared audio graph (lib/audio-graph): how ambient audio gives way to the conversation
+  audio: {
+    mixer: {
+      duckLevel: 0.15, // heartbeat and UI sounds while someone is talking, as a share of full
+      duckSeconds: 0.3, // quick, so the heartbeat is out of the way before the first word
+      releaseSeconds: 1.2, // slow, so it swells back in rather than snapping
+      crossfadeSeconds: 0.8, // between heartbeat rhythms, and in and out of silence
+    },
+  },
+
+  // How the on-screen mood is arbitrated (lib/mood-arbiter)
+  mood: {
+    apiPriorityMs: 5000, // a backend emotion holds the mood alone this long
+    stabilityMs: 2000, // a frontend suggestion must hold this long to count
+    hysteresis: 0.15, // in valence/arousal distance: small swings don't move the mood
+    backendWeight: 0.6, // blended: the backend's share
+  },
+
+  // Frontend sentiment analysis (lib/sentiment), run in a worker off the render thread
+  sentiment: {
+    cacheEntries: 200, // results kept for repeated text, least recently used dropped first
+  },
+
   // UI configuration
   ui: {
     notificationDuration: 3000, // ms
@@ -0,0 +1,69 @@
+import type { StateStorage } from 'zustand/middleware';
+
+// Key-value storage on IndexedDB for zustand's persist middleware. IndexedDB rather than
+// localStorage: a long conversation outgrows localStorage's ~5MB, and writes don't block the
+// main thread mid-reply. Where IndexedDB doesn't exist (SSR, old browsers, tests) every call
+// is a no-op and the store simply stays in memory.
+
+const DB_NAME = 'clara';
+const STORE_NAME = 'keyval';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null; // let the next call try again
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+// Raw values, for anything structured-cloneable — typed arrays and Blobs included. Same no-op
+// fallback as idbStorage.
+export const idbKeyval = {
+  available: isIndexedDbAvailable,
+  get: async <T>(key: string): Promise<T | undefined> => {
+    if (!isIndexedDbAvailable()) return undefined;
+    return run<T | undefined>('readonly', (store) => store.get(key));
+  },
+  set: async (key: string, value: unknown): Promise<void> => {
+    if (!isIndexedDbAvailable()) return;
+    await run('readwrite', (store) => store.put(value, key));
+  },
+  delete: async (key: string): Promise<void> => {
+    if (!isIndexedDbAvailable()) return;
+    await run('readwrite', (store) => store.delete(key));
+  },
+};
+
+export const idbStorage: StateStorage = {
+  getItem: async (name) => {
+    if (!isIndexedDbAvailable()) return null;
+    const value = await run<unknown>('readonly', (store) => store.get(name));
+    return typeof value === 'string' ? value : null;
+  },
+  setItem: async (name, value) => {
+    if (!isIndexedDbAvailable()) return;
+    await run('readwrite', (store) => store.put(value, name));
+  },
+  removeItem: async (name) => {
+    if (!isIndexedDbAvailable()) return;
+    await run('readwrite', (store) => store.delete(name));
+  },
+};
@@ -0,0 +1,27 @@
+import { detectLanguage, voicesForLanguage } from './language';
+
+const voice = (name: string, lang: string) => ({ name, lang }) as SpeechSynthesisVoice;
+
+describe('detectLanguage', () => {
+  it('takes the first supported locale, matching regions exactly when it can', () => {
+    expect(detectLanguage(['nl-NL', 'en-GB', 'fr-FR'])).toBe('en-GB');
+  });
+
+  it("falls back to another region of the user's language", () => {
+    expect(detectLanguage(['es-MX'])).toBe('es-ES');
+    expect(detectLanguage(['pt_PT'])).toBe('pt-BR');
+  });
+
+  it('falls back to the configured language when nothing matches', () => {
+    expect(detectLanguage(['ja-JP'])).toBe('en-US');
+    expect(detectLanguage([])).toBe('en-US');
+  });
+});
+
+describe('voicesForLanguage', () => {
+  it("lists the region's voices first, then the language's others", () => {
+    const voices = [voice('Thomas', 'fr-CA'), voice('Hans', 'de-DE'), voice('Amélie', 'fr-FR')];
+
+    expect(voicesForLanguage(voices, 'fr-FR').map((v) => v.name)).toEqual(['Amélie', 'Thomas']);
+  });
+});
@@ -0,0 +1,52 @@
+import { config } from '@/lib/config';
+
+// Languages Clara can hold a conversation in: recognition, voices and sentiment all follow the
+// one the user picks.
+export const SUPPORTED_LANGUAGES = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'it-IT', label: 'Italiano' },
+  { code: 'pt-BR', label: 'Português (Brasil)' },
+] as const;
+
+export type LanguageCode = (typeof SUPPORTED_LANGUAGES)[number]['code'];
+
+// 'auto' follows the browser's locale, re-read on every load.
+export type LanguagePreference = LanguageCode | 'auto';
+
+const normalize = (tag: string) => tag.replace('_', '-').toLowerCase();
+
+// 'pt-BR' → 'pt'. Android reports 'en_GB', so underscores count too.
+export const baseLanguage = (tag: string) => normalize(tag).split('-')[0] ?? '';
+
+const browserLocales = (): readonly string[] => {
+  if (typeof navigator === 'undefined') return [];
+  return navigator.languages?.length ? navigator.languages : [navigator.language].filter(Boolean);
+};
+
+// The first of the user's locales we support: an exact match, or failing that another region of
+// the same language ('es-MX' → 'es-ES'). Falls back to config.speech.language.
+export function detectLanguage(locales: readonly string[] = browserLocales()): LanguageCode {
+  for (const locale of locales) {
+    const exact = SUPPORTED_LANGUAGES.find(({ code }) => normalize(code) === normalize(locale));
+    if (exact) return exact.code;
+    const sameLanguage = SUPPORTED_LANGUAGES.find(({ code }) => baseLanguage(code) === baseLanguage(locale));
+    if (sameLanguage) return sameLanguage.code;
+  }
+  return config.speech.language;
+}
+
+export const resolveLanguage = (preference: LanguagePreference): LanguageCode =>
+  preference === 'auto' ? detectLanguage() : preference;
+
+// Voices that speak `language`: this region's first, then the language's other regions.
+export function voicesForLanguage(voices: SpeechSynthesisVoice[], language: string): SpeechSynthesisVoice[] {
+  const exact = voices.filter((voice) => normalize(voice.lang) === normalize(language));
+  const sameLanguage = voices.filter(
+    (voice) => normalize(voice.lang) !== normalize(language) && baseLanguage(voice.lang) === baseLanguage(language)
+  );
+  return [...exact, ...sameLanguage];
+}
@@ -0,0 +1,64 @@
+import { MicError, MicManager } from './mic';
+
+const fakeStream = () => {
+  const track = { readyState: 'live', stop: jest.fn(() => { track.readyState = 'ended'; }) };
+  return { track, stream: { getTracks: () => [track] } as unknown as MediaStream };
+};
+
+const setMedia = (getUserMedia: jest.Mock, permission: PermissionState = 'prompt') => {
+  navigator.mediaDevices.getUserMedia = getUserMedia;
+  Object.defineProperty(navigator, 'permissions', {
+    value: { query: jest.fn(async () => ({ state: permission, addEventListener: jest.fn() })) },
+    configurable: true,
+  });
+};
+
+describe('MicManager', () => {
+  it('shares one stream, and stops it only when the last holder lets go', async () => {
+    const { track, stream } = fakeStream();
+    const getUserMedia = jest.fn(async () => stream);
+    setMedia(getUserMedia);
+    const manager = new MicManager();
+
+    const [first, second] = await Promise.all([manager.acquire(), manager.acquire()]);
+    expect(first).toBe(second);
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+    expect(manager.getState()).toMatchObject({ permission: 'granted', problem: null });
+
+    manager.release();
+    expect(track.stop).not.toHaveBeenCalled();
+    manager.release();
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it('tells a blocked site from a dismissed prompt', async () => {
+    const refused = Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' });
+    setMedia(jest.fn(async () => { throw refused; }), 'denied');
+    const manager = new MicManager();
+
+    await expect(manager.acquire()).rejects.toEqual(expect.objectContaining({ problem: 'blocked' }));
+    expect(manager.getState().problem).toBe('blocked');
+
+    setMedia(jest.fn(async () => { throw refused; }), 'prompt');
+    const error = await new MicManager().acquire().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MicError);
+    expect((error as MicError).problem).toBe('dismissed');
+  });
+
+  it('reopens an open stream on a newly chosen device', async () => {
+    const before = fakeStream();
+    const after = fakeStream();
+    const getUserMedia = jest.fn().mockResolvedValueOnce(before.stream).mockResolvedValueOnce(after.stream);
+    setMedia(getUserMedia);
+    const manager = new MicManager();
+    const onStream = jest.fn();
+    manager.onStreamChange(onStream);
+
+    await manager.acquire();
+    await manager.setDevice('usb-mic');
+
+    expect(before.track.stop).toHaveBeenCalled();
+    expect(getUserMedia).toHaveBeenLastCalledWith({ audio: { deviceId: { exact: 'usb-mic' } } });
+    expect(onStream).toHaveBeenCalledWith(after.stream);
+  });
+});
@@ -0,0 +1,190 @@
+'use client';
+
+// What the browser will let us do with the mic. 'unknown' where the Permissions API can't say
+// (Firefox, Safari before 16) — asking is then the only way to find out.
+export type MicPermission = 'granted' | 'prompt' | 'denied' | 'unknown';
+
+// Why the mic couldn't be opened, as far as the browser lets us tell
+//   dismissed  — the prompt was closed or refused this time; asking again works
+//   blocked    — the site is blocked in browser settings; asking again does nothing
+//   os-blocked — the browser itself isn't allowed the mic (macOS/Windows privacy settings)
+//   no-device  — nothing to record from, or the chosen device is gone
+//   in-use     — another app has the device, or the hardware failed
+//   insecure   — the page isn't on https, where browsers hide getUserMedia
+export type MicProblem = 'dismissed' | 'blocked' | 'os-blocked' | 'no-device' | 'in-use' | 'insecure' | 'unsupported' | 'unknown';
+
+export class MicError extends Error {
+  constructor(readonly problem: MicProblem, message: string) {
+    super(message);
+    this.name = 'MicError';
+  }
+}
+
+export interface MicState {
+  permission: MicPermission;
+  problem: MicProblem | null; // from the last attempt to open the mic; null once one succeeds
+  deviceId: string | null; // null is the system default
+}
+
+const MESSAGES: Record<MicProblem, string> = {
+  dismissed: 'Microphone access was not allowed.',
+  blocked: 'Microphone access is blocked for this site.',
+  'os-blocked': 'Your system is not letting the browser use the microphone.',
+  'no-device': 'No microphone was found.',
+  'in-use': 'The microphone is in use by another app or not responding.',
+  insecure: 'The microphone is only available over a secure (https) connection.',
+  unsupported: 'This browser does not support microphone access.',
+  unknown: 'The microphone could not be opened.',
+};
+
+export const isMicSupported = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// One mic stream for everything that listens — recognition, VAD, the orb, the recorder — so the
+// browser prompts once, every consumer hears the same device, and switching device switches all.
+// Reference counted: acquire() for each use, release() when done; the last release closes it.
+export class MicManager {
+  private stream: MediaStream | null = null;
+  private opening: Promise<MediaStream> | null = null;
+  private holders = 0;
+  private state: MicState = { permission: 'unknown', problem: null, deviceId: null };
+  private listeners = new Set<(state: MicState) => void>();
+  private streamListeners = new Set<(stream: MediaStream) => void>();
+  private watchingPermission = false;
+
+  getState(): MicState {
+    return this.state;
+  }
+
+  onChange(listener: (state: MicState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Fires when the shared stream is replaced — a new device was picked — so long-lived
+  // consumers can re-tap it. The old one's tracks are already stopped.
+  onStreamChange(listener: (stream: MediaStream) => void): () => void {
+    this.streamListeners.add(listener);
+    return () => this.streamListeners.delete(listener);
+  }
+
+  // Read without prompting, and kept current: unblocking the site in settings updates it live.
+  async checkPermission(): Promise<MicPermission> {
+    try {
+      const status = await navigator.permissions.query({ name: 'microphone' as PermissionName });
+      this.update({ permission: status.state });
+      if (!this.watchingPermission) {
+        this.watchingPermission = true;
+        status.addEventListener('change', () => this.update({ permission: status.state }));
+      }
+    } catch {
+      // No Permissions API, or it doesn't know 'microphone' — whatever we last learned stands
+    }
+    return this.state.permission;
+  }
+
+  async acquire(): Promise<MediaStream> {
+    this.holders++;
+    try {
+      return await this.open();
+    } catch (error) {
+      this.holders--;
+      throw error;
+    }
+  }
+
+  release() {
+    this.holders = Math.max(this.holders - 1, 0);
+    if (this.holders === 0) this.close();
+  }
+
+  // Audio inputs, for a device picker. Labels are blank until permission has been granted once.
+  async listInputs(): Promise<MediaDeviceInfo[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter((device) => device.kind === 'audioinput');
+  }
+
+  // Takes effect at once: an open stream is reopened on the new device.
+  async setDevice(deviceId: string | null) {
+    if (deviceId === this.state.deviceId) return;
+    this.update({ deviceId });
+    if (!this.stream) return;
+    this.close();
+    const stream = await this.open();
+    this.streamListeners.forEach((listener) => listener(stream));
+  }
+
+  private open(): Promise<MediaStream> {
+    if (this.stream?.getTracks().some((track) => track.readyState === 'live')) return Promise.resolve(this.stream);
+    if (this.opening) return this.opening;
+    if (!isMicSupported()) {
+      const problem = typeof window !== 'undefined' && !window.isSecureContext ? 'insecure' : 'unsupported';
+      this.update({ problem });
+      return Promise.reject(new MicError(problem, MESSAGES[problem]));
+    }
+
+    const { deviceId } = this.state;
+    this.opening = navigator.mediaDevices
+      .getUserMedia({ audio: deviceId ? { deviceId: { exact: deviceId } } : true })
+      .then((stream) => {
+        if (this.holders === 0) {
+          // Everyone let go while the prompt was up
+          stream.getTracks().forEach((track) => track.stop());
+          return stream;
+        }
+        this.stream = stream;
+        this.update({ permission: 'granted', problem: null });
+        return stream;
+      })
+      .catch(async (error: unknown) => {
+        const problem = await this.classify(error);
+        this.update({ problem });
+        throw new MicError(problem, MESSAGES[problem]);
+      })
+      .finally(() => { this.opening = null; });
+    return this.opening;
+  }
+
+  private close() {
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+  }
+
+  // getUserMedia's DOMException names, mapped to something a person can act on
+  private async classify(error: unknown): Promise<MicProblem> {
+    const name = error instanceof Error ? error.name : '';
+    const message = error instanceof Error ? error.message.toLowerCase() : '';
+    switch (name) {
+      case 'NotAllowedError':
+      case 'PermissionDeniedError': {
+        // Chrome says so when the OS refused it; a dismissed prompt leaves the permission at 'prompt'
+        if (message.includes('system')) return 'os-blocked';
+        return (await this.checkPermission()) === 'denied' ? 'blocked' : 'dismissed';
+      }
+      case 'NotFoundError':
+      case 'OverconstrainedError': // the saved device is gone
+        return 'no-device';
+      case 'NotReadableError':
+      case 'AbortError':
+        return 'in-use';
+      case 'SecurityError':
+        return 'insecure';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private update(changes: Partial<MicState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
+
+let micManagerInstance: MicManager | null = null;
+
+export const getMicManager = (): MicManager => {
+  if (!micManagerInstance) {
+    micManagerInstance = new MicManager();
+  }
+  return micManagerInstance;
+};
@@ -0,0 +1,54 @@
+import { MoodArbiter, nearestMood, suggestMood, type MoodPolicy } from './mood-arbiter';
+
+const policy: MoodPolicy = { apiPriorityMs: 5000, stabilityMs: 2000, hysteresis: 0.15, backendWeight: 0.6 };
+const sad = [{ sentiment: 'negative' as const, intensity: 0.4 }];
+
+describe('suggestMood', () => {
+  it('maps the majority sentiment at its average intensity', () => {
+    expect(suggestMood([{ sentiment: 'positive', intensity: 0.9 }, { sentiment: 'positive', intensity: 0.8 }])).toBe('excited');
+    expect(suggestMood(sad)).toBe('sad');
+    expect(suggestMood([])).toBeNull();
+  });
+});
+
+describe('MoodArbiter', () => {
+  it('follows only the backend in backend mode', () => {
+    const arbiter = new MoodArbiter('backend', policy, 'happy');
+
+    expect(arbiter.fromSentiment(sad, 0)).toBe('happy');
+    expect(arbiter.fromSentiment(sad, 10_000)).toBe('happy');
+    expect(arbiter.fromBackend('stressed', 10_000)).toBe('frustrated');
+    expect(arbiter.nextCheckAt(10_000)).toBeNull();
+  });
+
+  it('takes a frontend suggestion only once it has held for the stability window', () => {
+    const arbiter = new MoodArbiter('frontend', policy, 'happy');
+
+    expect(arbiter.fromSentiment(sad, 0)).toBe('happy');
+    expect(arbiter.nextCheckAt(0)).toBe(2000);
+    expect(arbiter.recheck(2000)).toBe('sad');
+    expect(arbiter.fromBackend('happy', 3000)).toBe('sad'); // frontend mode ignores the backend
+  });
+
+  it('gives the backend the floor, then blends toward the user once it has passed', () => {
+    const arbiter = new MoodArbiter('blended', policy, 'calm');
+
+    expect(arbiter.fromBackend('happy', 0)).toBe('happy');
+    expect(arbiter.fromSentiment(sad, 1000)).toBe('happy');
+    expect(arbiter.nextCheckAt(1000)).toBe(5000);
+    // 60% happy, 40% sad lands nearest neutral
+    expect(arbiter.recheck(5000)).toBe('neutral');
+    expect(arbiter.fromBackend('sad', 6000)).toBe('sad');
+  });
+
+  it("doesn't move for a mood barely nearer than the current one", () => {
+    const arbiter = new MoodArbiter('frontend', { ...policy, hysteresis: 2 }, 'happy');
+    arbiter.fromSentiment(sad, 0);
+    expect(arbiter.recheck(5000)).toBe('happy');
+  });
+
+  it('picks the nearest mood in valence and arousal', () => {
+    expect(nearestMood([0.65, 0.75])).toBe('excited');
+    expect(nearestMood([-0.7, 0.7])).toBe('angry');
+  });
+});
@@ -0,0 +1,125 @@
+import type { EmotionalMood } from '@/components/clara/EmotionalBackdrop';
+import { config } from '@/lib/config';
+import type { SentimentAnalysisResult } from '@/lib/sentiment';
+import { backendEmotionToMood, sentimentToMoodMapping } from '@/utils/heartbeat-utils';
+
+// Where the on-screen mood comes from:
+//   backend  — the conversation_emotion Clara replies with, nothing else
+//   blended  — that, pulled toward what the user's own words sound like once it's gone quiet
+//   frontend — the user's words alone, read by the sentiment analyzer
+export type MoodSource = 'backend' | 'blended' | 'frontend';
+
+export interface MoodPolicy {
+  apiPriorityMs: number; // after a backend emotion arrives, it alone sets the mood this long
+  stabilityMs: number; // a frontend suggestion has to hold this long before it counts
+  hysteresis: number; // how much nearer a new mood must be than the current one to replace it
+  backendWeight: number; // blended: the backend's share of the mix, 0-1
+}
+
+export type SentimentReading = Pick<SentimentAnalysisResult, 'sentiment' | 'intensity'>;
+
+// Each mood as [valence, arousal], so moods can be mixed and the nearest one picked.
+export const MOOD_COORDINATES: Record<EmotionalMood, readonly [number, number]> = {
+  neutral: [0, 0],
+  calm: [0.3, -0.6],
+  happy: [0.7, 0.2],
+  excited: [0.7, 0.8],
+  surprised: [0.2, 0.8],
+  sad: [-0.6, -0.5],
+  frustrated: [-0.5, 0.4],
+  angry: [-0.8, 0.8],
+};
+
+const distance = (a: readonly [number, number], b: readonly [number, number]) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+export const nearestMood = (point: readonly [number, number]): EmotionalMood =>
+  (Object.keys(MOOD_COORDINATES) as EmotionalMood[]).reduce((best, mood) =>
+    distance(point, MOOD_COORDINATES[mood]) < distance(point, MOOD_COORDINATES[best]) ? mood : best
+  );
+
+// The mood a run of messages suggests: the majority sentiment, at their average intensity.
+export function suggestMood(readings: SentimentReading[]): EmotionalMood | null {
+  if (!readings.length) return null;
+  const positive = readings.filter(({ sentiment }) => sentiment === 'positive').length;
+  const negative = readings.filter(({ sentiment }) => sentiment === 'negative').length;
+  const intensity = readings.reduce((sum, reading) => sum + reading.intensity, 0) / readings.length;
+  return sentimentToMoodMapping(positive > negative ? 'positive' : negative > positive ? 'negative' : 'neutral', intensity);
+}
+
+// Decides the mood shown from the two opinions on it. Backend emotions apply as they come;
+// frontend ones only once they've held steady, and only past the hysteresis margin, so the
+// backdrop doesn't flicker with every message.
+export class MoodArbiter {
+  private current: EmotionalMood;
+  private backendMood: EmotionalMood | null = null;
+  private backendAt = -Infinity;
+  private suggestion: { mood: EmotionalMood; since: number } | null = null;
+
+  constructor(
+    private source: MoodSource = 'blended',
+    private readonly policy: MoodPolicy = config.mood,
+    initial: EmotionalMood = 'happy'
+  ) {
+    this.current = initial;
+  }
+
+  get mood(): EmotionalMood {
+    return this.current;
+  }
+
+  setSource(source: MoodSource, now = Date.now()): EmotionalMood {
+    this.source = source;
+    return this.decide(now);
+  }
+
+  fromBackend(emotion: string, now = Date.now()): EmotionalMood {
+    this.backendMood = backendEmotionToMood(emotion);
+    this.backendAt = now;
+    return this.decide(now);
+  }
+
+  fromSentiment(readings: SentimentReading[], now = Date.now()): EmotionalMood {
+    const mood = suggestMood(readings);
+    if (mood !== this.suggestion?.mood) this.suggestion = mood ? { mood, since: now } : null;
+    return this.decide(now);
+  }
+
+  // When the mood could next change with nothing new said — a suggestion settling, or the
+  // backend's priority running out — so the caller knows when to ask again.
+  nextCheckAt(now = Date.now()): number | null {
+    if (this.source === 'backend' || !this.suggestion) return null;
+    const times = [this.suggestion.since + this.policy.stabilityMs];
+    if (this.source === 'blended') times.push(this.backendAt + this.policy.apiPriorityMs);
+    const later = times.filter((time) => time > now);
+    return later.length ? Math.max(...later) : null;
+  }
+
+  // Re-decide with nothing new: for the time nextCheckAt() named
+  recheck(now = Date.now()): EmotionalMood {
+    return this.decide(now);
+  }
+
+  private decide(now: number): EmotionalMood {
+    const settled = this.suggestion && now - this.suggestion.since >= this.policy.stabilityMs ? this.suggestion.mood : null;
+    const backendHasFloor = this.backendMood !== null && now - this.backendAt < this.policy.apiPriorityMs;
+
+    // The backend speaks with authority: no hysteresis
+    if (this.source === 'backend' || (this.source === 'blended' && backendHasFloor)) {
+      if (this.backendMood) this.current = this.backendMood;
+      return this.current;
+    }
+    if (!settled) return this.current;
+
+    let target = MOOD_COORDINATES[settled];
+    if (this.source === 'blended' && this.backendMood) {
+      const weight = this.policy.backendWeight;
+      const backend = MOOD_COORDINATES[this.backendMood];
+      target = [backend[0] * weight + target[0] * (1 - weight), backend[1] * weight + target[1] * (1 - weight)];
+    }
+    const candidate = nearestMood(target);
+    if (distance(target, MOOD_COORDINATES[this.current]) - distance(target, MOOD_COORDINATES[candidate]) > this.policy.hysteresis) {
+      this.current = candidate;
+    }
+    return this.current;
+  }
+}
@@ -0,0 +1,79 @@
+import type { ClaraMessage } from '@/store/claraStore';
+import { ConversationRecorder, encodeWav, transcriptFor, type AudioOutput } from './recorder';
+
+const message = (id: string, role: ClaraMessage['role'], at: string, extra: Partial<ClaraMessage> = {}): ClaraMessage => ({
+  id, role, content: `${id} text`, timestamp: new Date(at), ...extra,
+});
+
+describe('transcriptFor', () => {
+  it('places the messages said while recording on its timeline', () => {
+    const startedAt = new Date('2026-01-01T10:00:00.000Z');
+    const transcript = transcriptFor(
+      [
+        message('before', 'user', '2026-01-01T09:59:59.000Z'),
+        message('asked', 'user', '2026-01-01T10:00:02.500Z'),
+        message('cut-off', 'assistant', '2026-01-01T10:00:06.000Z', { heardContent: 'cut', emotion: 'happy' }),
+        message('after', 'user', '2026-01-01T10:00:30.000Z'),
+      ],
+      { startedAt, durationMs: 10_000 }
+    );
+
+    expect(transcript.startedAt).toBe('2026-01-01T10:00:00.000Z');
+    expect(transcript.entries).toEqual([
+      { id: 'asked', role: 'user', content: 'asked text', at: '2026-01-01T10:00:02.500Z', offsetMs: 2500 },
+      {
+        id: 'cut-off', role: 'assistant', content: 'cut-off text', heardContent: 'cut', emotion: 'happy',
+        at: '2026-01-01T10:00:06.000Z', offsetMs: 6000,
+      },
+    ]);
+  });
+});
+
+// jsdom's Blob has no arrayBuffer()
+const readBlob = (blob: Blob) => new Promise<ArrayBuffer>((resolve) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as ArrayBuffer);
+  reader.readAsArrayBuffer(blob);
+});
+
+describe('encodeWav', () => {
+  it('writes a 16-bit PCM header and interleaves the channels', async () => {
+    const blob = encodeWav([new Float32Array([1, -1]), new Float32Array([0, 0.5])], 48000);
+    const view = new DataView(await readBlob(blob));
+    const text = (offset: number) => String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+
+    expect([text(0), text(8), text(36)]).toEqual(['RIFF', 'WAVE', 'data']);
+    expect(view.getUint16(22, true)).toBe(2); // channels
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint32(40, true)).toBe(8); // 2 frames × 2 channels × 2 bytes
+    expect([44, 46, 48, 50].map((offset) => view.getInt16(offset, true))).toEqual([32767, 0, -32768, 16383]);
+  });
+});
+
+describe('ConversationRecorder', () => {
+  it('hands back the mic and its taps when recording fails to start', async () => {
+    const track = { stop: jest.fn() };
+    navigator.mediaDevices.getUserMedia = jest.fn().mockResolvedValue({ getTracks: () => [track] });
+    Object.assign(global, {
+      MediaRecorder: jest.fn(() => {
+        throw new DOMException('Unsupported', 'NotSupportedError');
+      }),
+    });
+    const node = () => ({ connect: jest.fn(), disconnect: jest.fn() });
+    const mix = { ...node(), stream: {} };
+    const micSource = node();
+    const output = {
+      context: { createMediaStreamDestination: () => mix, createMediaStreamSource: () => micSource },
+      output: node(),
+    };
+
+    const recorder = new ConversationRecorder(() => output as unknown as AudioOutput);
+    await expect(recorder.start()).rejects.toThrow('Unsupported');
+
+    expect(recorder.recording).toBe(false);
+    expect(micSource.disconnect).toHaveBeenCalled();
+    expect(mix.disconnect).toHaveBeenCalled();
+    expect(output.output.disconnect).toHaveBeenCalledWith(mix);
+    expect(track.stop).toHaveBeenCalled(); // the last hold let go closes the mic
+  });
+});
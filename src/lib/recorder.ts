@@ -0,0 +1,190 @@
+'use client';
+
+import { getMicManager, isMicSupported } from '@/lib/mic';
+import type { ClaraMessage } from '@/store/claraStore';
+
+// A Web Audio node carrying Clara's voice, and the context it lives in — taps must share it.
+export interface AudioOutput {
+  context: AudioContext;
+  output: AudioNode;
+}
+
+export interface Recording {
+  audio: Blob; // WebM/Opus, or whatever this browser's MediaRecorder makes
+  startedAt: Date;
+  durationMs: number;
+}
+
+export interface RecordingTranscriptEntry {
+  id: string;
+  role: ClaraMessage['role'];
+  content: string;
+  heardContent?: string; // what was actually spoken before a barge-in cut Clara off
+  emotion?: string;
+  at: string; // ISO timestamp
+  offsetMs: number; // from the start of the recording
+}
+
+export interface RecordingTranscript {
+  startedAt: string;
+  durationMs: number;
+  entries: RecordingTranscriptEntry[];
+}
+
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const pickMimeType = () =>
+  typeof MediaRecorder.isTypeSupported === 'function' ? MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) : undefined;
+
+export const isRecordingSupported = () => typeof MediaRecorder !== 'undefined' && isMicSupported();
+
+// Records a conversation as one track: the user's mic and Clara's voice, mixed in the context
+// Clara plays through. Browser voices play outside Web Audio, so only their transcript is kept.
+// Opt-in only — nothing is captured until start(), and the mic is let go on stop().
+export class ConversationRecorder {
+  private session: {
+    recorder: MediaRecorder;
+    micSource: MediaStreamAudioSourceNode;
+    mix: MediaStreamAudioDestinationNode;
+    stopFollowingMic: () => void;
+    output: AudioOutput;
+    chunks: Blob[];
+    startedAt: Date;
+  } | null = null;
+
+  // Called at start(), so the speech service's context exists by the time it's tapped
+  constructor(private readonly getOutput: () => AudioOutput) {}
+
+  get recording(): boolean {
+    return this.session !== null;
+  }
+
+  async start(): Promise<void> {
+    if (this.session) return;
+    // The shared mic: the browser's echo cancellation keeps Clara out of it, and she's already in
+    // the mix from the source.
+    const mic = await getMicManager().acquire();
+    // What's been set up so far, undone in reverse if a later step throws
+    const undo: Array<() => void> = [() => getMicManager().release()];
+    try {
+      const output = this.getOutput();
+      const mix = output.context.createMediaStreamDestination();
+      output.output.connect(mix);
+      undo.push(() => {
+        mix.disconnect();
+        try {
+          output.output.disconnect(mix);
+        } catch { /* already gone with its context */ }
+      });
+      const tapMic = (stream: MediaStream) => {
+        const source = output.context.createMediaStreamSource(stream);
+        source.connect(mix); // to the recording only — never the speakers
+        return source;
+      };
+      let micSource = tapMic(mic);
+      undo.push(() => micSource.disconnect());
+      // A new input device mid-recording carries on in the same file
+      const stopFollowingMic = getMicManager().onStreamChange((stream) => {
+        micSource.disconnect();
+        micSource = tapMic(stream);
+        if (this.session) this.session.micSource = micSource;
+      });
+      undo.push(stopFollowingMic);
+
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(mix.stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => { if (event.data.size) chunks.push(event.data); };
+      recorder.start(1000); // a timeslice, so a crash mid-session loses a second, not everything
+
+      this.session = { recorder, micSource, mix, stopFollowingMic, output, chunks, startedAt: new Date() };
+    } catch (error) {
+      undo.reverse().forEach((step) => step());
+      throw error;
+    }
+  }
+
+  async stop(): Promise<Recording> {
+    const session = this.session;
+    if (!session) throw new Error('Not recording');
+    this.session = null;
+
+    const { recorder, micSource, mix, stopFollowingMic, output, chunks, startedAt } = session;
+    await new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+      recorder.stop();
+    });
+    stopFollowingMic();
+    micSource.disconnect();
+    mix.disconnect();
+    getMicManager().release();
+    try {
+      output.output.disconnect(mix); // only our tap: Clara stays connected to the speakers
+    } catch { /* already gone with its context */ }
+
+    return {
+      audio: new Blob(chunks, { type: recorder.mimeType || chunks[0]?.type || 'audio/webm' }),
+      startedAt,
+      durationMs: Date.now() - startedAt.getTime(),
+    };
+  }
+}
+
+// The messages said during a recording, placed on its timeline. Clara's replies are stamped when
+// their stream ends, so they sit a little after her voice starts in the audio.
+export function transcriptFor(messages: ClaraMessage[], recording: Pick<Recording, 'startedAt' | 'durationMs'>): RecordingTranscript {
+  const start = recording.startedAt.getTime();
+  const entries = messages
+    .filter(({ timestamp }) => timestamp.getTime() >= start && timestamp.getTime() <= start + recording.durationMs)
+    .map((message) => ({
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      ...(message.heardContent !== undefined ? { heardContent: message.heardContent } : {}),
+      ...(message.emotion ? { emotion: message.emotion } : {}),
+      at: message.timestamp.toISOString(),
+      offsetMs: message.timestamp.getTime() - start,
+    }));
+  return { startedAt: recording.startedAt.toISOString(), durationMs: recording.durationMs, entries };
+}
+
+// 16-bit PCM WAV, channels interleaved
+export function encodeWav(channels: Float32Array[], sampleRate: number): Blob {
+  const frames = channels[0]?.length ?? 0;
+  const blockAlign = channels.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + frames * blockAlign));
+  const text = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + frames * blockAlign, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  text(36, 'data');
+  view.setUint32(40, frames * blockAlign, true);
+
+  let offset = 44;
+  for (let frame = 0; frame < frames; frame++) {
+    for (const channel of channels) {
+      const sample = Math.min(Math.max(channel[frame] ?? 0, -1), 1);
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view], { type: 'audio/wav' });
+}
+
+// MediaRecorder only makes compressed audio; WAV is that, decoded and written out again.
+export async function recordingToWav(recording: Recording, context: BaseAudioContext): Promise<Blob> {
+  const decoded = await context.decodeAudioData(await recording.audio.arrayBuffer());
+  const channels = Array.from({ length: decoded.numberOfChannels }, (_, i) => decoded.getChannelData(i));
+  return encodeWav(channels, decoded.sampleRate);
+}
@@ -0,0 +1,66 @@
+import { analyzeText, LEXICONS, lexiconFor, registerLexicon, tokenize } from './index';
+
+describe('tokenize', () => {
+  it('strips punctuation from words, and keeps emoji, emoticons and contractions whole', () => {
+    expect(tokenize("Great! Don't 👍🏽 :) ❤️")).toEqual([
+      { text: 'great', kind: 'word' },
+      { text: '!', kind: 'punctuation' },
+      { text: "don't", kind: 'word' },
+      { text: '👍', kind: 'emoji' },
+      { text: ':)', kind: 'emoji' },
+      { text: '❤', kind: 'emoji' },
+    ]);
+  });
+});
+
+describe('analyzeText', () => {
+  it('finds keywords with punctuation attached', () => {
+    const result = analyzeText('great!', 'en-US');
+    expect(result.sentiment).toBe('positive');
+    expect(result.emotionalKeywords).toEqual(['great']);
+  });
+
+  it('flips sentiment inside a negation window, until the clause ends', () => {
+    expect(analyzeText('I am not happy', 'en').sentiment).toBe('negative');
+    expect(analyzeText("I don't feel very good at all", 'en').sentiment).toBe('negative');
+    expect(analyzeText('not bad', 'en').sentiment).toBe('positive');
+    expect(analyzeText('Not today, I am happy', 'en').sentiment).toBe('positive');
+    expect(analyzeText('nothing is wrong but I am sad', 'en').sentiment).toBe('negative');
+  });
+
+  it('reads "ne … pas" as one negation, and splits elisions', () => {
+    expect(analyzeText("je ne suis pas content", 'fr-FR').sentiment).toBe('negative');
+    expect(analyzeText("j'adore ça", 'fr-FR').emotionalKeywords).toEqual(['adore']);
+  });
+
+  it('scales only the sentiment word an intensifier reaches', () => {
+    const plain = analyzeText('I am happy', 'en').intensity;
+    expect(analyzeText('I am really happy', 'en').intensity).toBeGreaterThan(plain);
+    expect(analyzeText('I am slightly happy', 'en').intensity).toBeLessThan(plain);
+    expect(analyzeText('really, I am happy', 'en').intensity).toBe(plain);
+  });
+
+  it('scores emoji and multi-word phrases', () => {
+    expect(analyzeText('😭😭', 'en').sentiment).toBe('negative');
+    expect(analyzeText('ok 🥰', 'de').sentiment).toBe('positive');
+    const phrase = analyzeText("I'm so fed up", 'en');
+    expect(phrase.sentiment).toBe('negative');
+    expect(phrase.emotionalKeywords).toEqual(['fed up']);
+  });
+
+  it('raises conversation intensity on each language\'s cues, phrases included', () => {
+    const calm = analyzeText('hello there', 'en').conversationIntensity;
+    expect(analyzeText('I need it right now', 'en').conversationIntensity).toBeCloseTo(calm + 0.4);
+    expect(analyzeText('I would like tea', 'en').conversationIntensity).toBeCloseTo(calm + 0.1);
+    expect(analyzeText('lo necesito ahora mismo', 'es').conversationIntensity).toBeCloseTo(calm + 0.4);
+    expect(analyzeText('hola', 'es').conversationIntensity).toBeCloseTo(calm);
+  });
+
+  it('uses a registered lexicon for its language', () => {
+    expect(lexiconFor('nl-NL')).toBe(LEXICONS.en);
+    registerLexicon('nl', { words: { blij: 1, verdrietig: -1 }, negators: ['niet'], intensifiers: { heel: 1.5 } });
+
+    expect(analyzeText('ik ben niet blij', 'nl-NL').sentiment).toBe('negative');
+    expect(analyzeText('heel blij', 'nl-BE').emotionalKeywords).toEqual(['blij']);
+  });
+});
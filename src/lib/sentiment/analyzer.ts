@@ -0,0 +1,166 @@
+import { SHARED_EMOJI } from './lexicons';
+import type { SentimentAnalysisResult, SentimentLexicon, SentimentToken } from './types';
+
+// Emoticons first, so ':)' isn't read as punctuation; then emoji with any modifiers or joined
+// parts; then words, keeping inner apostrophes ("don't"); then the punctuation that matters.
+const TOKEN = /[:;=]-?[()DP]|:'\(|<\/?3|\p{Extended_Pictographic}(?:[\uFE0F\u{1F3FB}-\u{1F3FF}]|\u200D\p{Extended_Pictographic})*|[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*|[!?.,;:]/gu;
+const EMOJI_NOISE = /[\uFE0F\u{1F3FB}-\u{1F3FF}]/gu;
+const WORD_START = /^[\p{L}\p{N}]/u;
+const PUNCTUATION = /^[!?.,;:]$/;
+
+// How many words a negator reaches. "not at all happy" is still not happy; a new clause never is.
+const NEGATION_WINDOW = 3;
+// A negated word counts for less, the other way: "not great" is mild, not "awful".
+const NEGATED = -0.75;
+// An intensifier scales a sentiment word up to this many words on: "so very happy", "really quite good".
+const INTENSIFIER_REACH = 2;
+const MAX_SCALE = 3;
+
+export function tokenize(text: string): SentimentToken[] {
+  return Array.from(text.matchAll(TOKEN), ([match]): SentimentToken => {
+    if (WORD_START.test(match)) return { text: match.toLowerCase().replace(/’/g, "'"), kind: 'word' };
+    if (PUNCTUATION.test(match)) return { text: match, kind: 'punctuation' };
+    return { text: match.replace(EMOJI_NOISE, ''), kind: 'emoji' };
+  });
+}
+
+// "j'adore" → "j'", "adore", for languages that elide
+const splitElisions = (tokens: SentimentToken[], elisions: string[] | undefined): SentimentToken[] => {
+  if (!elisions?.length) return tokens;
+  return tokens.flatMap((token) => {
+    const prefix = token.kind === 'word' ? elisions.find((elision) => token.text.startsWith(elision) && token.text.length > elision.length) : undefined;
+    return prefix ? [{ text: prefix, kind: 'word' }, { text: token.text.slice(prefix.length), kind: 'word' }] : [token];
+  });
+};
+
+// The longest lexicon phrase starting at tokens[start], if any
+const matchPhrase = (tokens: SentimentToken[], start: number, phrases: Record<string, number>, longest: number) => {
+  for (let length = Math.min(longest, tokens.length - start); length > 1; length--) {
+    const slice = tokens.slice(start, start + length);
+    if (slice.some((token) => token.kind !== 'word')) continue;
+    const text = slice.map((token) => token.text).join(' ');
+    const valence = phrases[text];
+    if (valence !== undefined) return { text, valence, length };
+  }
+  return null;
+};
+
+// Whether the message has any of the cues in it, single words or space-separated phrases
+const mentionsAny = (tokens: SentimentToken[], cues: string[] = []) => {
+  const words = new Set(cues.filter((cue) => !cue.includes(' ')));
+  const phrases = Object.fromEntries(cues.filter((cue) => cue.includes(' ')).map((cue) => [cue, 1]));
+  const longest = Math.max(1, ...Object.keys(phrases).map((phrase) => phrase.split(' ').length));
+  return tokens.some((token, i) => token.kind === 'word' && (words.has(token.text) || matchPhrase(tokens, i, phrases, longest) !== null));
+};
+
+// Calculate conversation intensity from text characteristics
+function conversationIntensityOf(text: string, tokens: SentimentToken[], lexicon: SentimentLexicon): number {
+  let intensity = 0.3; // Base intensity
+
+  // Message length factor
+  const messageLength = text.length;
+  if (messageLength > 100) intensity += 0.2;
+  if (messageLength > 200) intensity += 0.2;
+
+  // Punctuation intensity
+  const exclamationCount = (text.match(/!/g) || []).length;
+  const questionCount = (text.match(/\?/g) || []).length;
+  intensity += Math.min(exclamationCount * 0.15, 0.4);
+  intensity += Math.min(questionCount * 0.1, 0.3);
+
+  // High intensity keywords; any '!' or '?' counts in every language
+  const asks = tokens.some((token) => token.text === '!' || token.text === '?');
+  if (asks || mentionsAny(tokens, lexicon.intensityCues?.high)) intensity += 0.3;
+
+  // Medium intensity keywords
+  if (mentionsAny(tokens, lexicon.intensityCues?.medium)) intensity += 0.1;
+
+  // Caps lock intensity
+  const capsRatio = (text.match(/[A-Z]/g) || []).length / text.length;
+  if (capsRatio > 0.3) intensity += 0.2;
+
+  return Math.min(intensity, 1);
+}
+
+// Rule-based sentiment: lexicon words, phrases and emoji, each scaled by an intensifier in
+// reach and flipped inside a negation window, with exclamation marks raising the whole message.
+export function scoreSentiment(text: string, lexicon: SentimentLexicon): SentimentAnalysisResult {
+  const tokens = splitElisions(tokenize(text), lexicon.elisions);
+  const phrases = lexicon.phrases ?? {};
+  const longestPhrase = Math.max(1, ...Object.keys(phrases).map((phrase) => phrase.split(' ').length));
+  const emotionalKeywords: string[] = [];
+  let positiveScore = 0;
+  let negativeScore = 0;
+  let negationLeft = 0;
+  let scale = 1;
+  let scaleLeft = 0;
+
+  const endClause = () => {
+    negationLeft = 0;
+    scale = 1;
+    scaleLeft = 0;
+  };
+  const count = (keyword: string, valence: number) => {
+    if (valence > 0) positiveScore += valence;
+    else negativeScore -= valence;
+    emotionalKeywords.push(keyword);
+  };
+
+  for (let i = 0; i < tokens.length; ) {
+    const token = tokens[i]!;
+    if (token.kind === 'punctuation') {
+      endClause();
+      i++;
+      continue;
+    }
+    if (token.kind === 'emoji') {
+      // An emoji stands on its own: "not sure 😊" is still a smile
+      const valence = lexicon.emoji?.[token.text] ?? SHARED_EMOJI[token.text];
+      if (valence !== undefined) count(token.text, valence);
+      i++;
+      continue;
+    }
+
+    const phrase = matchPhrase(tokens, i, phrases, longestPhrase);
+    const valence = phrase?.valence ?? lexicon.words[token.text];
+    const length = phrase?.length ?? 1;
+
+    if (valence !== undefined) {
+      let score = valence * (scaleLeft > 0 ? scale : 1);
+      if (negationLeft > 0) score *= NEGATED;
+      count(phrase?.text ?? token.text, score);
+      scale = 1;
+      scaleLeft = 0;
+    } else if (lexicon.negators.includes(token.text)) {
+      // Opens the window rather than toggling it: "ne … pas" is one negation, not two
+      negationLeft = NEGATION_WINDOW + 1;
+    } else if (lexicon.intensifiers[token.text] !== undefined) {
+      scale = Math.min(scale * lexicon.intensifiers[token.text]!, MAX_SCALE);
+      scaleLeft = INTENSIFIER_REACH + 1;
+    } else if (lexicon.breaks?.includes(token.text)) {
+      endClause();
+    }
+
+    negationLeft = Math.max(negationLeft - length, 0);
+    scaleLeft = Math.max(scaleLeft - length, 0);
+    i += length;
+  }
+
+  const exclamations = tokens.filter((token) => token.text === '!').length;
+  const emphasis = 1 + Math.min(exclamations, 3) * 0.3;
+
+  // Determine sentiment
+  let sentiment: SentimentAnalysisResult['sentiment'] = 'neutral';
+  let intensity: number;
+  if (positiveScore > negativeScore) {
+    sentiment = 'positive';
+    intensity = Math.min(positiveScore * emphasis * 0.3, 1);
+  } else if (negativeScore > positiveScore) {
+    sentiment = 'negative';
+    intensity = Math.min(negativeScore * emphasis * 0.3, 1);
+  } else {
+    intensity = Math.min((positiveScore + negativeScore) * emphasis * 0.2, 1);
+  }
+
+  return { sentiment, intensity, emotionalKeywords, conversationIntensity: conversationIntensityOf(text, tokens, lexicon) };
+}
@@ -0,0 +1,66 @@
+import { SentimentClient } from './client';
+import { analyzeText } from './registry';
+import type { SentimentWorkerRequest } from './types';
+
+// Answers like the real worker, a tick later; or never, to stand in for one that died
+const fakeWorker = ({ answer = true } = {}) => {
+  const received: SentimentWorkerRequest[] = [];
+  const worker = {
+    onmessage: null as ((event: { data: unknown }) => void) | null,
+    onerror: null as ((event: { message: string }) => void) | null,
+    terminate: jest.fn(),
+    postMessage: (request: SentimentWorkerRequest) => {
+      received.push(request);
+      if (!answer || request.type !== 'analyze') return;
+      const { id, text, language } = request;
+      setTimeout(() => worker.onmessage?.({ data: { id, result: analyzeText(text, language) } }), 0);
+    },
+  };
+  return { worker, received, asWorker: () => worker as unknown as Worker };
+};
+
+describe('SentimentClient', () => {
+  it('analyzes in the worker, once per text, with the lexicon sent first', async () => {
+    const { received, asWorker } = fakeWorker();
+    const client = new SentimentClient({ cacheEntries: 10 }, asWorker);
+
+    const [first, second] = await Promise.all([client.analyze('so happy!', 'en-US'), client.analyze('so happy!', 'en-GB')]);
+
+    expect(first).toBe(second);
+    expect(first.sentiment).toBe('positive');
+    expect(received.map((request) => request.type)).toEqual(['lexicon', 'analyze']);
+    expect(client.cached('so happy!', 'en')).toBe(first);
+  });
+
+  it('keeps only the most recently used results', () => {
+    const client = new SentimentClient({ cacheEntries: 2 }, () => null);
+
+    client.analyzeNow('one', 'en');
+    client.analyzeNow('two', 'en');
+    client.cached('one', 'en');
+    client.analyzeNow('three', 'en');
+
+    expect(client.size).toBe(2);
+    expect(client.cached('two', 'en')).toBeNull();
+    expect(client.cached('one', 'en')).not.toBeNull();
+  });
+
+  it('analyzes inline where there is no worker', async () => {
+    const client = new SentimentClient({ cacheEntries: 10 }, () => null);
+    expect((await client.analyze('I am not happy', 'en')).sentiment).toBe('negative');
+  });
+
+  it('answers what a failed worker was asked, and carries on inline', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { worker, asWorker } = fakeWorker({ answer: false });
+    const client = new SentimentClient({ cacheEntries: 10 }, asWorker);
+
+    const pending = client.analyze('awful', 'en');
+    worker.onerror?.({ message: 'script failed to load' });
+
+    expect((await pending).sentiment).toBe('negative');
+    expect(worker.terminate).toHaveBeenCalled();
+    expect((await client.analyze('great', 'en')).sentiment).toBe('positive');
+    jest.restoreAllMocks();
+  });
+});
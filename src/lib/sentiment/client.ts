@@ -0,0 +1,158 @@
+import { config } from '@/lib/config';
+import { baseLanguage } from '@/lib/language';
+import { scoreSentiment } from './analyzer';
+import { lexiconFor } from './registry';
+import type { SentimentAnalysisResult, SentimentLexicon, SentimentWorkerRequest, SentimentWorkerResponse } from './types';
+
+export interface SentimentClientOptions {
+  cacheEntries: number;
+}
+
+interface Pending {
+  text: string;
+  language: string;
+  resolve: (result: SentimentAnalysisResult) => void;
+}
+
+const spawnWorker = (): Worker | null =>
+  typeof Worker === 'undefined' ? null : new Worker(new URL('./worker.ts', import.meta.url));
+
+// Sentiment analysis off the render thread, so scoring a long conversation never costs the orb a
+// frame. Results are kept in a bounded LRU. Where there are no workers (tests, old browsers) or
+// the worker fails to start, it scores on the calling thread instead — same results, just inline.
+export class SentimentClient {
+  private worker: Worker | null | undefined; // undefined until first use; null is inline
+  private pending = new Map<number, Pending>();
+  private inFlight = new Map<string, Promise<SentimentAnalysisResult>>();
+  private cache = new Map<string, SentimentAnalysisResult>(); // Map order is recency: oldest first
+  private lexiconsSent = new Map<string, SentimentLexicon>();
+  private nextId = 0;
+
+  constructor(
+    private readonly options: SentimentClientOptions = config.sentiment,
+    private readonly createWorker: () => Worker | null = spawnWorker
+  ) {}
+
+  get size(): number {
+    return this.cache.size;
+  }
+
+  // Already analyzed, without waiting
+  cached(text: string, language: string): SentimentAnalysisResult | null {
+    const key = this.keyFor(text, language);
+    const result = this.cache.get(key);
+    if (!result) return null;
+    this.cache.delete(key);
+    this.cache.set(key, result);
+    return result;
+  }
+
+  // On this thread, for a caller that can't wait: one short message is cheap, a history isn't.
+  analyzeNow(text: string, language: string): SentimentAnalysisResult {
+    const cached = this.cached(text, language);
+    if (cached) return cached;
+    const result = scoreSentiment(text, lexiconFor(language));
+    this.remember(this.keyFor(text, language), result);
+    return result;
+  }
+
+  analyze(text: string, language: string): Promise<SentimentAnalysisResult> {
+    const cached = this.cached(text, language);
+    if (cached) return Promise.resolve(cached);
+    const key = this.keyFor(text, language);
+    const inFlight = this.inFlight.get(key);
+    if (inFlight) return inFlight;
+
+    const worker = this.ensureWorker();
+    if (!worker) return Promise.resolve(this.analyzeNow(text, language));
+
+    const request = new Promise<SentimentAnalysisResult>((resolve) => {
+      const id = this.nextId++;
+      this.pending.set(id, { text, language, resolve });
+      this.sendLexicon(worker, language);
+      worker.postMessage({ type: 'analyze', id, text, language } satisfies SentimentWorkerRequest);
+    }).then((result) => {
+      this.remember(key, result);
+      return result;
+    }).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = undefined;
+    this.lexiconsSent.clear();
+    this.fallBackInline();
+  }
+
+  private ensureWorker(): Worker | null {
+    if (this.worker !== undefined) return this.worker;
+    try {
+      this.worker = this.createWorker();
+    } catch (error) {
+      console.warn('Sentiment worker unavailable, analyzing inline:', error);
+      this.worker = null;
+    }
+    if (this.worker) {
+      this.worker.onmessage = ({ data }: MessageEvent<SentimentWorkerResponse>) => this.receive(data);
+      this.worker.onerror = (event) => {
+        console.warn('Sentiment worker failed, analyzing inline:', event.message);
+        this.worker?.terminate();
+        this.worker = null;
+        this.fallBackInline();
+      };
+    }
+    return this.worker;
+  }
+
+  private receive(response: SentimentWorkerResponse) {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+    if ('result' in response) {
+      pending.resolve(response.result);
+    } else {
+      console.warn('Sentiment worker could not analyze a message:', response.error);
+      pending.resolve(scoreSentiment(pending.text, lexiconFor(pending.language)));
+    }
+  }
+
+  // A lexicon registered on the page only exists here; the worker gets its own copy
+  private sendLexicon(worker: Worker, language: string) {
+    const base = baseLanguage(language);
+    const lexicon = lexiconFor(language);
+    if (this.lexiconsSent.get(base) === lexicon) return;
+    this.lexiconsSent.set(base, lexicon);
+    worker.postMessage({ type: 'lexicon', language: base, lexicon } satisfies SentimentWorkerRequest);
+  }
+
+  // Nothing asked of a worker that's gone is left hanging
+  private fallBackInline() {
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    pending.forEach(({ text, language, resolve }) => resolve(scoreSentiment(text, lexiconFor(language))));
+  }
+
+  private remember(key: string, result: SentimentAnalysisResult) {
+    this.cache.delete(key);
+    this.cache.set(key, result);
+    while (this.cache.size > this.options.cacheEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  // Case stays in the key: capitals raise conversation intensity
+  private keyFor(text: string, language: string) {
+    return `${baseLanguage(language)}:${text.trim()}`;
+  }
+}
+
+let sentimentClientInstance: SentimentClient | null = null;
+
+export const getSentimentClient = (): SentimentClient => {
+  if (!sentimentClientInstance) {
+    sentimentClientInstance = new SentimentClient();
+  }
+  return sentimentClientInstance;
+};
@@ -0,0 +1,12 @@
+import { scoreSentiment, tokenize } from './analyzer';
+import { getSentimentClient, SentimentClient } from './client';
+import { LEXICONS, SHARED_EMOJI } from './lexicons';
+import { analyzeText, lexiconFor, registerLexicon } from './registry';
+
+export type {
+  SentimentAnalysisResult, SentimentLexicon, SentimentToken, SentimentWorkerRequest, SentimentWorkerResponse,
+} from './types';
+export type { SentimentClientOptions } from './client';
+export {
+  analyzeText, getSentimentClient, LEXICONS, lexiconFor, registerLexicon, scoreSentiment, SentimentClient, SHARED_EMOJI, tokenize,
+};
@@ -0,0 +1,182 @@
+import type { SentimentLexicon } from './types';
+
+const weigh = (valence: number, words: string[]): Record<string, number> =>
+  Object.fromEntries(words.map((word) => [word, valence]));
+
+// Emoji mean the same in every language. Text emoticons are matched as typed.
+export const SHARED_EMOJI: Record<string, number> = {
+  ...weigh(1, ['😀', '😃', '😄', '😁', '😆', '😊', '🙂', '☺', '😘', '😻', '😂', '🤣', '👍', '🙌', '👏', '🎉', '🥳', '✨', '💕', '💖', '💗', '💙', '💚', '💛', '💜', '🧡']),
+  ...weigh(1.5, ['😍', '🥰', '❤']),
+  ...weigh(-1, ['😢', '😞', '😔', '😟', '😕', '🙁', '☹', '😣', '😖', '😫', '😩', '😤', '😠', '👎', '😰', '😨', '😓', '😿']),
+  ...weigh(-1.5, ['😭', '😡', '🤬', '💔', '😱']),
+  ...weigh(1, [':)', ':-)', ':D', ':-D', '=)', ';)', ';-)', '<3']),
+  ...weigh(-1, [':(', ':-(', ":'(", '</3']),
+};
+
+// Built-in lexicons, by base language
+export const LEXICONS: Record<string, SentimentLexicon> = {
+  en: {
+    words: {
+      ...weigh(1, [
+        'love', 'great', 'wonderful', 'fantastic', 'excellent', 'awesome', 'happy', 'joy', 'excited',
+        'pleased', 'satisfied', 'perfect', 'brilliant', 'good', 'glad', 'nice', 'calm', 'relieved', 'grateful',
+      ]),
+      ...weigh(1.5, ['amazing', 'thrilled', 'delighted', 'incredible', 'outstanding', 'superb', 'marvelous', 'ecstatic']),
+      ...weigh(-1, [
+        'hate', 'terrible', 'awful', 'horrible', 'bad', 'angry', 'frustrated', 'sad', 'disappointed', 'upset',
+        'annoyed', 'depressed', 'stressed', 'worried', 'anxious', 'lonely', 'tired', 'scared',
+      ]),
+      ...weigh(-1.5, ['worst', 'disgusting', 'furious', 'miserable', 'devastated', 'heartbroken', 'hopeless']),
+    },
+    phrases: {
+      'over the moon': 2, 'on cloud nine': 2, 'looking forward': 1, 'thank you': 1,
+      'fed up': -1.5, 'let down': -1, 'stressed out': -1.5, 'freaking out': -1.5, 'burnt out': -1.5, 'burned out': -1.5,
+    },
+    negators: [
+      'not', 'no', 'never', 'nothing', 'nobody', 'none', 'neither', 'nor', 'without', 'hardly', 'cannot',
+      "don't", "doesn't", "didn't", "isn't", "wasn't", "aren't", "weren't", "can't", "couldn't", "won't",
+      "wouldn't", "shouldn't", "haven't", "hasn't", "ain't", 'dont', 'doesnt', 'didnt', 'isnt', 'cant',
+    ],
+    intensifiers: {
+      ...weigh(1.5, ['very', 'really', 'so', 'too', 'super', 'wow', 'omg']),
+      ...weigh(1.8, ['extremely', 'absolutely', 'completely', 'totally', 'incredibly', 'unbelievably', 'tremendously', 'enormously', 'immensely']),
+      ...weigh(0.5, ['slightly', 'somewhat', 'kinda', 'barely']),
+    },
+    breaks: ['but', 'although', 'though', 'however'],
+    intensityCues: {
+      high: ['urgent', 'quickly', 'immediately', 'right now', 'asap', 'emergency', 'crisis', 'problem', 'issue', 'help', 'stuck'],
+      medium: ['need', 'want', 'should', 'could', 'might', 'maybe', 'think', 'hope', 'wish', 'prefer', 'would like'],
+    },
+  },
+  es: {
+    words: {
+      ...weigh(1, [
+        'encanta', 'genial', 'maravilloso', 'fantástico', 'excelente', 'feliz', 'alegre', 'alegría', 'emocionado',
+        'emocionada', 'contento', 'contenta', 'perfecto', 'estupendo', 'bien', 'tranquilo', 'tranquila',
+      ]),
+      ...weigh(1.5, ['increíble']),
+      ...weigh(-1, [
+        'odio', 'terrible', 'horrible', 'malo', 'mala', 'mal', 'enfadado', 'enfadada', 'frustrado', 'frustrada',
+        'triste', 'decepcionado', 'decepcionada', 'preocupado', 'preocupada', 'estresado', 'estresada', 'harto', 'harta',
+      ]),
+      ...weigh(-1.5, ['peor']),
+    },
+    phrases: { 'de maravilla': 1.5, 'hasta las narices': -1.5 },
+    negators: ['no', 'nunca', 'jamás', 'nada', 'nadie', 'ni', 'tampoco', 'sin'],
+    intensifiers: {
+      ...weigh(1.5, ['muy', 'realmente', 'tan', 'guau']),
+      ...weigh(1.8, ['muchísimo', 'totalmente', 'completamente', 'increíblemente']),
+      ...weigh(0.5, ['poco', 'algo']),
+    },
+    breaks: ['pero', 'aunque'],
+    intensityCues: {
+      high: ['urgente', 'rápido', 'inmediatamente', 'ahora mismo', 'emergencia', 'crisis', 'problema', 'ayuda', 'atascado', 'atascada'],
+      medium: ['necesito', 'quiero', 'debería', 'podría', 'quizás', 'tal vez', 'creo', 'pienso', 'espero', 'ojalá', 'prefiero', 'me gustaría'],
+    },
+  },
+  fr: {
+    words: {
+      ...weigh(1, [
+        'adore', 'génial', 'merveilleux', 'fantastique', 'excellent', 'heureux', 'heureuse', 'joie', 'ravi', 'ravie',
+        'content', 'contente', 'parfait', 'super', 'bien', 'bon', 'bonne',
+      ]),
+      ...weigh(1.5, ['incroyable']),
+      ...weigh(-1, [
+        'déteste', 'terrible', 'horrible', 'mauvais', 'fâché', 'fâchée', 'frustré', 'frustrée', 'triste', 'déçu',
+        'déçue', 'inquiet', 'inquiète', 'stressé', 'stressée', 'marre',
+      ]),
+      ...weigh(-1.5, ['pire']),
+    },
+    negators: ['ne', "n'", 'pas', 'jamais', 'rien', 'personne', 'aucun', 'aucune', 'sans', 'ni'],
+    intensifiers: {
+      ...weigh(1.5, ['très', 'vraiment', 'tellement', 'trop', 'waouh']),
+      ...weigh(1.8, ['totalement', 'complètement', 'extrêmement']),
+      ...weigh(0.5, ['peu', 'assez']),
+    },
+    breaks: ['mais', 'pourtant'],
+    intensityCues: {
+      high: ['urgent', 'urgente', 'vite', 'immédiatement', 'tout de suite', 'urgence', 'crise', 'problème', 'aide', 'bloqué', 'bloquée'],
+      // 'peut être': the tokenizer splits "peut-être" at the hyphen
+      medium: ['besoin', 'veux', 'voudrais', 'devrais', 'pourrais', 'peut être', 'pense', 'crois', 'espère', 'souhaite', 'préfère', 'aimerais'],
+    },
+    elisions: ["j'", "l'", "d'", "n'", "m'", "t'", "s'", "c'", "qu'"],
+  },
+  de: {
+    words: {
+      ...weigh(1, [
+        'liebe', 'toll', 'großartig', 'wunderbar', 'fantastisch', 'ausgezeichnet', 'glücklich', 'freude', 'begeistert',
+        'froh', 'zufrieden', 'perfekt', 'super', 'klasse', 'gut', 'schön',
+      ]),
+      ...weigh(-1, [
+        'hasse', 'schrecklich', 'furchtbar', 'schlecht', 'wütend', 'frustriert', 'traurig', 'enttäuscht', 'verärgert',
+        'besorgt', 'gestresst', 'deprimiert',
+      ]),
+      ...weigh(-1.5, ['schlimmste']),
+    },
+    phrases: { 'die nase voll': -1.5 },
+    // Negation only reaches forward: "ich mag das nicht" slips through
+    negators: ['nicht', 'kein', 'keine', 'keinen', 'keiner', 'nie', 'niemals', 'nichts', 'niemand', 'ohne', 'weder'],
+    intensifiers: {
+      ...weigh(1.5, ['sehr', 'wirklich', 'so', 'wow']),
+      ...weigh(1.8, ['extrem', 'total', 'völlig', 'unglaublich']),
+      ...weigh(0.5, ['etwas', 'bisschen']),
+    },
+    breaks: ['aber', 'sondern'],
+    intensityCues: {
+      high: ['dringend', 'schnell', 'sofort', 'notfall', 'krise', 'problem', 'hilfe', 'komme nicht weiter'],
+      medium: ['brauche', 'will', 'möchte', 'sollte', 'könnte', 'vielleicht', 'denke', 'glaube', 'hoffe', 'wünsche', 'lieber', 'hätte gern'],
+    },
+  },
+  it: {
+    words: {
+      ...weigh(1, [
+        'amo', 'fantastico', 'meraviglioso', 'eccellente', 'felice', 'gioia', 'entusiasta', 'contento', 'contenta',
+        'perfetto', 'splendido', 'bellissimo', 'bene', 'buono',
+      ]),
+      ...weigh(1.5, ['incredibile']),
+      ...weigh(-1, [
+        'odio', 'terribile', 'orribile', 'brutto', 'arrabbiato', 'arrabbiata', 'frustrato', 'frustrata', 'triste',
+        'deluso', 'delusa', 'preoccupato', 'preoccupata', 'stressato', 'stressata', 'male',
+      ]),
+      ...weigh(-1.5, ['peggio']),
+    },
+    negators: ['non', 'mai', 'niente', 'nulla', 'nessuno', 'nessuna', 'senza', 'né'],
+    intensifiers: {
+      ...weigh(1.5, ['molto', 'davvero', 'veramente', 'così', 'troppo']),
+      ...weigh(1.8, ['totalmente', 'completamente', 'estremamente']),
+      ...weigh(0.5, ['poco', 'abbastanza']),
+    },
+    breaks: ['ma', 'però'],
+    intensityCues: {
+      high: ['urgente', 'subito', 'immediatamente', 'emergenza', 'crisi', 'problema', 'aiuto', 'bloccato', 'bloccata'],
+      medium: ['bisogno', 'voglio', 'vorrei', 'dovrei', 'potrei', 'forse', 'penso', 'credo', 'spero', 'preferisco'],
+    },
+    elisions: ["l'", "un'", "c'", "d'", "m'", "t'", "s'", "dell'", "nell'", "all'"],
+  },
+  pt: {
+    words: {
+      ...weigh(1, [
+        'amo', 'ótimo', 'maravilhoso', 'fantástico', 'excelente', 'feliz', 'alegria', 'animado', 'animada',
+        'contente', 'perfeito', 'lindo', 'demais', 'bem', 'bom', 'boa',
+      ]),
+      ...weigh(1.5, ['incrível']),
+      ...weigh(-1, [
+        'odeio', 'terrível', 'horrível', 'ruim', 'bravo', 'brava', 'frustrado', 'frustrada', 'triste', 'decepcionado',
+        'decepcionada', 'preocupado', 'preocupada', 'estressado', 'estressada', 'mal',
+      ]),
+      ...weigh(-1.5, ['pior']),
+    },
+    phrases: { 'de saco cheio': -1.5 },
+    negators: ['não', 'nunca', 'jamais', 'nada', 'ninguém', 'nem', 'sem'],
+    intensifiers: {
+      ...weigh(1.5, ['muito', 'realmente', 'tão', 'nossa']),
+      ...weigh(1.8, ['totalmente', 'completamente', 'extremamente']),
+      ...weigh(0.5, ['pouco', 'meio']),
+    },
+    breaks: ['mas', 'porém'],
+    intensityCues: {
+      high: ['urgente', 'rápido', 'imediatamente', 'agora mesmo', 'emergência', 'crise', 'problema', 'ajuda', 'preso', 'presa'],
+      medium: ['preciso', 'quero', 'queria', 'deveria', 'poderia', 'talvez', 'acho', 'penso', 'espero', 'prefiro', 'gostaria'],
+    },
+  },
+};
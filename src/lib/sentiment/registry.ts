@@ -0,0 +1,23 @@
+import { config } from '@/lib/config';
+import { baseLanguage } from '@/lib/language';
+import { scoreSentiment } from './analyzer';
+import { LEXICONS } from './lexicons';
+import type { SentimentAnalysisResult, SentimentLexicon } from './types';
+
+const registered = new Map<string, SentimentLexicon>();
+
+// Add a language, or replace a built-in one, by base language: 'nl', 'pt'. To extend rather
+// than replace, spread the built-in: { ...LEXICONS.en, words: { ...LEXICONS.en.words, … } }.
+export function registerLexicon(language: string, lexicon: SentimentLexicon) {
+  registered.set(baseLanguage(language), lexicon);
+}
+
+// Languages without a lexicon fall back to English.
+export function lexiconFor(language: string): SentimentLexicon {
+  const base = baseLanguage(language);
+  return registered.get(base) ?? LEXICONS[base] ?? LEXICONS.en!;
+}
+
+export function analyzeText(text: string, language: string = config.speech.language): SentimentAnalysisResult {
+  return scoreSentiment(text, lexiconFor(language));
+}
@@ -0,0 +1,35 @@
+export interface SentimentAnalysisResult {
+  sentiment: 'positive' | 'negative' | 'neutral';
+  intensity: number; // 0-1
+  emotionalKeywords: string[];
+  conversationIntensity: number; // 0-1 based on message frequency and content
+}
+
+// One language's sentiment vocabulary. Valences are signed: +1 a plainly positive word, -1 a
+// plainly negative one, further from zero for stronger ones. Everything but emoji is lowercase.
+export interface SentimentLexicon {
+  words: Record<string, number>;
+  phrases?: Record<string, number>; // space-separated words, matched before any of them alone
+  emoji?: Record<string, number>; // on top of the shared emoji and emoticons
+  negators: string[]; // flip the next 3 words, stopping early at the end of the clause
+  intensifiers: Record<string, number>; // scale the next sentiment word: 'very' 1.5, 'slightly' 0.5
+  breaks?: string[]; // words that end a clause like punctuation does: 'but'
+  elisions?: string[]; // prefixes split off a word: "j'adore" is "j'" and "adore"
+  // Words and phrases that raise conversationIntensity: high for something pressing, medium for a want
+  intensityCues?: { high: string[]; medium: string[] };
+}
+
+export interface SentimentToken {
+  text: string; // lowercase for words; emoji without variation selectors or skin tones
+  kind: 'word' | 'emoji' | 'punctuation';
+}
+
+// Messages to and from the sentiment worker. Lexicons registered on the page are sent across
+// before the first request that needs them.
+export type SentimentWorkerRequest =
+  | { type: 'analyze'; id: number; text: string; language: string }
+  | { type: 'lexicon'; language: string; lexicon: SentimentLexicon };
+
+export type SentimentWorkerResponse =
+  | { id: number; result: SentimentAnalysisResult }
+  | { id: number; error: string };
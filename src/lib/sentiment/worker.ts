@@ -0,0 +1,20 @@
+import { analyzeText, registerLexicon } from './registry';
+import type { SentimentWorkerRequest, SentimentWorkerResponse } from './types';
+
+// Worker entry: analysis off the page's thread. Spawned by SentimentClient.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<SentimentWorkerRequest>) => void) | null;
+  postMessage: (message: SentimentWorkerResponse) => void;
+};
+
+scope.onmessage = ({ data }) => {
+  if (data.type === 'lexicon') {
+    registerLexicon(data.language, data.lexicon);
+    return;
+  }
+  try {
+    scope.postMessage({ id: data.id, result: analyzeText(data.text, data.language) });
+  } catch (error) {
+    scope.postMessage({ id: data.id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
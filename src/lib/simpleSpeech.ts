@@ -1,68 +1,79 @@
-export type SpeechListener = (result: { transcript: string; isFinal: boolean }) => void;
-
-// Minimal DOM type guards for browsers that expose webkit speech recognition
-type AnySpeechRecognition = {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  onresult: ((event: unknown) => void) | null;
-  onerror: ((event: unknown) => void) | null;
-  onend: (() => void) | null;
-  start: () => void;
-  stop: () => void;
-};
+import { config } from '@/lib/config';
+import { baseLanguage, voicesForLanguage } from '@/lib/language';
+import { createSttProvider, preferredSttProvider, type SttListener, type SttProvider } from '@/lib/stt';
+import type { TtsVoiceSettings } from '@/lib/tts';
 
+export type SpeechListener = SttListener;
+
+// Whether any configured speech-to-text engine can run here — without building one or asking
+// for the mic. Firefox only can when a local transcription server is configured.
+export function isSpeechRecognitionSupported(): boolean {
+  return preferredSttProvider() !== null;
+}
+
+// Voice in through whichever STT engine config picks, voice out through speechSynthesis.
 export class SimpleSpeech {
-  private recognition?: AnySpeechRecognition;
+  private stt: SttProvider | null;
   private isSpeaking = false;
-  private preferredVoice?: SpeechSynthesisVoice;
-  
-
-  constructor() {
-    type SpeechWindow = {
-      SpeechRecognition?: new () => AnySpeechRecognition;
-      webkitSpeechRecognition?: new () => AnySpeechRecognition;
-    };
-    const SpeechRecognitionImpl =
-      (typeof window !== 'undefined' && (window as unknown as SpeechWindow).SpeechRecognition) ||
-      (typeof window !== 'undefined' && (window as unknown as SpeechWindow).webkitSpeechRecognition);
-    if (SpeechRecognitionImpl) {
-      const rec: AnySpeechRecognition = new SpeechRecognitionImpl();
-      rec.continuous = false;
-      rec.interimResults = true;
-      rec.lang = 'en-US';
-      rec.onresult = null;
-      rec.onerror = null;
-      rec.onend = null;
-      this.recognition = rec;
-    }
+  private preferredVoice: SpeechSynthesisVoice | undefined;
+  private language: string = config.speech.language;
+  private voiceSettings: TtsVoiceSettings | null = null;
+
+  constructor(stt: SttProvider | null = createSttProvider()) {
+    this.stt = stt;
 
     // Initialize voices and set default to Google UK English Female if available
     if (typeof window !== 'undefined' && window.speechSynthesis) {
-      const setDefaultVoice = () => {
-        const voices = window.speechSynthesis.getVoices() || [];
-        const defaultVoice = this.pickDefaultUkFemaleVoice(voices);
-        if (defaultVoice) {
-          this.preferredVoice = defaultVoice;
-        }
-        if (!this.preferredVoice && voices.length > 0) {
-          // Robust fallback order if Google UK Female isn't present
-          this.preferredVoice =
-            voices.find(v => v.name === 'Samantha') ||
-            voices.find(v => v.name === 'Alex') ||
-            voices.find(v => /^en-GB/i.test(v.lang || '')) ||
-            voices.find(v => /^en-/i.test(v.lang || '')) ||
-            voices.find(v => v.default) ||
-            voices[0];
-        }
-      };
-      setDefaultVoice();
-      window.speechSynthesis.onvoiceschanged = () => setDefaultVoice();
+      this.setDefaultVoice();
+      window.speechSynthesis.onvoiceschanged = () => this.setDefaultVoice();
+    }
+  }
+
+  // Language for both directions: what the recognizer listens for and what speak() talks in.
+  public setLanguage(language: string): void {
+    if (language === this.language) return;
+    this.language = language;
+    this.preferredVoice = undefined;
+    if (typeof window !== 'undefined' && window.speechSynthesis) this.setDefaultVoice();
+  }
+
+  // Same settings BrowserSpeechService speaks with. Only a browser voice can be honoured here;
+  // rate, pitch and volume always are.
+  public setVoiceSettings(settings: TtsVoiceSettings): void {
+    this.voiceSettings = settings;
+  }
+
+  private chosenVoice(): SpeechSynthesisVoice | undefined {
+    const choice = this.voiceSettings?.voice;
+    if (choice?.provider !== 'web-speech') return undefined;
+    return window.speechSynthesis.getVoices().find((voice) => voice.voiceURI === choice.id);
+  }
+
+  private setDefaultVoice(): void {
+    const voices = window.speechSynthesis.getVoices() || [];
+    if (baseLanguage(this.language) !== 'en') {
+      // No curated list beyond English: the first voice for the language, else the browser's pick
+      this.preferredVoice = voicesForLanguage(voices, this.language)[0];
+      return;
+    }
+    const defaultVoice = this.pickDefaultUkFemaleVoice(voices);
+    if (defaultVoice) {
+      this.preferredVoice = defaultVoice;
+    }
+    if (!this.preferredVoice && voices.length > 0) {
+      // Robust fallback order if Google UK Female isn't present
+      this.preferredVoice =
+        voices.find(v => v.name === 'Samantha') ||
+        voices.find(v => v.name === 'Alex') ||
+        voices.find(v => /^en-GB/i.test(v.lang || '')) ||
+        voices.find(v => /^en-/i.test(v.lang || '')) ||
+        voices.find(v => v.default) ||
+        voices[0];
     }
   }
 
   public canListen(): boolean {
-    return !!this.recognition;
+    return !!this.stt;
   }
 
   public async speak(text: string): Promise<void> {
@@ -71,12 +82,14 @@ export class SimpleSpeech {
     this.isSpeaking = true;
     return new Promise((resolve) => {
       const utterance = new SpeechSynthesisUtterance(text);
-      if (this.preferredVoice) {
-        utterance.voice = this.preferredVoice;
-        // Align language if voice is en-GB
-        if (this.preferredVoice.lang && this.preferredVoice.lang.toLowerCase().startsWith('en-gb')) {
-          utterance.lang = 'en-GB';
-        }
+      const voice = this.chosenVoice() ?? this.preferredVoice;
+      if (voice) utterance.voice = voice;
+      // Align language with the voice — en-GB for the default British one
+      utterance.lang = voice?.lang || this.language;
+      if (this.voiceSettings) {
+        utterance.rate = this.voiceSettings.rate;
+        utterance.pitch = this.voiceSettings.pitch;
+        utterance.volume = this.voiceSettings.volume;
       }
       utterance.onend = () => {
         this.isSpeaking = false;
@@ -88,71 +101,12 @@ export class SimpleSpeech {
   }
 
   public async startListening(onResult: SpeechListener): Promise<void> {
-    if (!this.recognition || this.isSpeaking) return;
-
-    // Ensure microphone permission (Brave and some Chromium derivatives require this)
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      // Stop tracks immediately; we just needed permission
-      stream.getTracks().forEach((t) => t.stop());
-    } catch {
-      throw new Error('Microphone access denied or unavailable. Please allow mic permission.');
-    }
-
-    return new Promise((resolve, reject) => {
-      if (!this.recognition) return reject(new Error('Speech recognition unavailable'));
-
-      this.recognition.onresult = (event: unknown) => {
-        const evt = event as { resultIndex: number; results: Array<{ 0: { transcript: string }; isFinal: boolean }> };
-        let transcript = '';
-        for (let i = evt.resultIndex; i < evt.results.length; i++) {
-          transcript += evt.results[i][0].transcript;
-          const isFinal = evt.results[i].isFinal;
-          onResult({ transcript, isFinal });
-        }
-      };
-
-      this.recognition.onerror = (e: unknown) => {
-        const err = e as { error?: string };
-        if (err?.error === 'no-speech') {
-          // Non-fatal; resolve to allow caller to continue UI loop
-          return resolve();
-        }
-        if (err?.error === 'network') {
-          return reject(new Error('Speech recognition network error.'));
-        }
-        if (err?.error === 'not-allowed') {
-          return reject(new Error('Microphone permission blocked. Please allow mic access in browser settings.'));
-        }
-        if (err?.error === 'audio-capture') {
-          return reject(new Error('No microphone detected.'));
-        }
-        return reject(e);
-      };
-
-      this.recognition.onend = () => {
-        resolve();
-      };
-
-      try {
-        this.recognition.start();
-      } catch {
-        // Some browsers throw if already started. Stop and retry once.
-        try {
-          this.recognition.stop();
-          this.recognition.start();
-        } catch (err) {
-          reject(err as unknown);
-        }
-      }
-    });
+    if (!this.stt || this.isSpeaking) return;
+    return this.stt.startListening(onResult, this.language);
   }
 
   public async stopListening(): Promise<void> {
-    if (!this.recognition) return;
-    try {
-      this.recognition.stop();
-    } catch {}
+    await this.stt?.stopListening();
   }
 
   private pickDefaultUkFemaleVoice(voices: SpeechSynthesisVoice[]): SpeechSynthesisVoice | undefined {
@@ -1,4 +1,6 @@
-import { BrowserSpeechService, pcmToFloat32, spokenTextSoFar } from './speech';
+import { BrowserSpeechService, isLikelyEcho, pcmToFloat32, spokenTextSoFar } from './speech';
+import { config } from './config';
+import { AudioCache, type TtsAudio, type TtsProvider, type TtsProviderId } from './tts';
 
 // Mock Web Speech API
 const mockSpeechSynthesis = {
@@ -160,6 +162,19 @@ describe('Streamed PCM playback', () => {
     expect(speechService['playCursor']).toBe(0);
   });
 
+  test('captions a sentence only once its audio is heard, with how far through it is', async () => {
+    speechService.queueStreamingChunk('Good morning to you.');
+    await flush();
+    expect(speechService.caption()).toBeNull(); // scheduled, but still inside the lead-in
+
+    fakeCtx.currentTime = 0.35 + 0.5; // half of the one-second sentence
+    try {
+      expect(speechService.caption()).toEqual({ text: 'Good morning to you.', progress: 0.5 });
+    } finally {
+      fakeCtx.currentTime = 0;
+    }
+  });
+
   // The server gives up on Qwen3 before the first chunk by answering with a whole Kokoro WAV.
   test('plays the server\'s Kokoro WAV fallback', async () => {
     const play = jest.fn().mockResolvedValue(undefined);
@@ -297,6 +312,44 @@ describe('BrowserSpeechService - Speech Enhancement', () => {
     });
   });
 
+  describe('Barge-in', () => {
+    test('interrupt reports played sentences plus the heard part of the current one', () => {
+      const onComplete = jest.fn();
+      speechService.setStreamingCallbacks({ onComplete });
+      speechService['isCurrentlySpeaking'] = true; // hold the queue so we can step it by hand
+
+      speechService.queueStreamingChunk('First one here. Second sentence has exactly six words.');
+      speechService['speakNextChunk'](); // "First one here." starts
+      speechService['speakNextChunk'](); // ...finishes, the second starts
+      speechService['currentProgress'] = () => 0.5;
+
+      expect(speechService.interrupt()).toBe('First one here. Second sentence has');
+      expect(speechService['speechQueue']).toHaveLength(0);
+
+      speechService['speakNextChunk'](); // the cancelled sentence's chunk-end arriving late
+      expect(onComplete).not.toHaveBeenCalled(); // the user has the floor — no auto-restart
+      expect(speechService.heardText()).toBe('First one here.');
+    });
+
+    test('a new turn starts with nothing heard', () => {
+      speechService['isCurrentlySpeaking'] = true;
+      speechService.queueStreamingChunk('Old reply.');
+      speechService.interrupt();
+
+      speechService.queueStreamingChunk('New reply.');
+      expect(speechService.heardText()).toBe('');
+      expect(speechService.turnText()).toBe('New reply.');
+    });
+
+    test('echo check tells Clara\'s own words from the user cutting in', () => {
+      const spoken = "I went to the market today and it was lovely.";
+      expect(isLikelyEcho('went to the market', spoken, 0.6)).toBe(true);
+      expect(isLikelyEcho('Market, today!', spoken, 0.6)).toBe(true); // punctuation and case
+      expect(isLikelyEcho('wait stop please', spoken, 0.6)).toBe(false);
+      expect(isLikelyEcho('   ', spoken, 0.6)).toBe(true); // nothing heard is nothing to act on
+    });
+  });
+
   describe('Speech State Management', () => {
     test('should stop speech and reset state', () => {
       speechService['isCurrentlySpeaking'] = true;
@@ -327,4 +380,93 @@ describe('BrowserSpeechService - Speech Enhancement', () => {
       (window as any).speechSynthesis = originalSynth;
     });
   });
-});
\ No newline at end of file
+});
+describe('TTS providers', () => {
+  type FakeProvider = TtsProvider & { synthesize: jest.Mock; checkHealth: jest.Mock; stop: jest.Mock };
+  const fakeProvider = (id: TtsProviderId, synthesize: jest.Mock, healthy = false): FakeProvider => ({
+    id,
+    synthesize,
+    checkHealth: jest.fn().mockResolvedValue(healthy),
+    stop: jest.fn(),
+  });
+  const native = (): TtsAudio => ({ kind: 'native', speak: () => ({ done: Promise.resolve(), progress: () => 1 }) });
+
+  test('falls through to the next provider and sidelines the one that failed', async () => {
+    const server = fakeProvider('voice-server', jest.fn().mockRejectedValue(new Error('down')));
+    const browser = fakeProvider('web-speech', jest.fn().mockResolvedValue(native()));
+    const service = new BrowserSpeechService([server, browser]);
+    const onEnd = jest.fn();
+
+    service['isCurrentlySpeaking'] = true;
+    service['speakChunk']('One.', {}, onEnd);
+    await flush();
+    service['speakChunk']('Two.', {}, onEnd);
+    await flush();
+
+    expect(onEnd).toHaveBeenCalledTimes(2);
+    expect(server.synthesize).toHaveBeenCalledTimes(1); // not retried for "Two." while it sits out
+    expect(server.checkHealth).toHaveBeenCalled();
+    expect(browser.synthesize.mock.calls.map((c) => c[0])).toEqual(['One.', 'Two.']);
+  });
+
+  test('a failed provider whose health check passes is tried again', async () => {
+    const server = fakeProvider('voice-server', jest.fn().mockRejectedValueOnce(new Error('down')).mockResolvedValue(native()), true);
+    const browser = fakeProvider('web-speech', jest.fn().mockResolvedValue(native()));
+    const service = new BrowserSpeechService([server, browser]);
+
+    service['isCurrentlySpeaking'] = true;
+    service['speakChunk']('One.', {});
+    await flush();
+    service['speakChunk']('Two.', {}); // sidelined, but this kicks off the probe
+    await flush();
+    service['speakChunk']('Three.', {});
+    await flush();
+
+    expect(server.synthesize.mock.calls.map((c) => c[0])).toEqual(['One.', 'Three.']);
+  });
+
+  test('reports when every provider failed, and stops them all on stopSpeaking', async () => {
+    const server = fakeProvider('voice-server', jest.fn().mockRejectedValue(new Error('down')));
+    const browser = fakeProvider('web-speech', jest.fn().mockRejectedValue(new Error('no voices')));
+    const service = new BrowserSpeechService([server, browser]);
+    const onError = jest.fn();
+
+    service['isCurrentlySpeaking'] = true;
+    service['speakChunk']('One.', {}, jest.fn(), onError);
+    await flush();
+    expect(onError).toHaveBeenCalledWith('No TTS provider could speak the sentence');
+
+    service.stopSpeaking();
+    expect(server.stop).toHaveBeenCalled();
+    expect(browser.stop).toHaveBeenCalled();
+  });
+
+  test('a sentence spoken the same way again comes from the cache, not the provider', async () => {
+    const wav = { kind: 'wav', blob: new Blob(['RIFF']) } as TtsAudio;
+    const server = fakeProvider('voice-server', jest.fn().mockResolvedValue(wav));
+    const service = new BrowserSpeechService([server], new AudioCache({ ...config.aiSpeech.tts.cache, persist: false }));
+
+    await expect(service['synthesize'](server, 'Hello there.')).resolves.toBe(wav);
+    await expect(service['synthesize'](server, 'Hello there.')).resolves.toBe(wav);
+    service.setEmotion('excited');
+    await service['synthesize'](server, 'Hello there.');
+
+    expect(server.synthesize).toHaveBeenCalledTimes(2); // a new emotion is new audio
+    expect(service.cacheStats()).toEqual(expect.objectContaining({ hits: 1, misses: 2 }));
+  });
+
+  test('a chosen voice puts its provider first, and only that provider gets the voice id', async () => {
+    const server = fakeProvider('voice-server', jest.fn().mockRejectedValue(new Error('down')));
+    const browser = fakeProvider('web-speech', jest.fn().mockRejectedValue(new Error('no voices')));
+    const service = new BrowserSpeechService([server, browser]);
+    service.setVoiceSettings({ voice: { provider: 'web-speech', id: 'urn:moira' }, rate: 1.2, pitch: 1, volume: 1 });
+
+    service['isCurrentlySpeaking'] = true;
+    service['speakChunk']('One.', {}, jest.fn(), jest.fn());
+    await flush();
+
+    expect(browser.synthesize.mock.invocationCallOrder[0]).toBeLessThan(server.synthesize.mock.invocationCallOrder[0]!);
+    expect(browser.synthesize.mock.calls[0][1]).toEqual(expect.objectContaining({ voice: 'urn:moira', rate: 1.2 }));
+    expect(server.synthesize.mock.calls[0][1]).not.toHaveProperty('voice');
+  });
+});
@@ -1,10 +1,22 @@
 'use client';
 
-interface TextToSpeechOptions {
-  rate?: number;
-  pitch?: number;
-  volume?: number;
-}
+import { getAudioGraph } from '@/lib/audio-graph';
+import { config } from '@/lib/config';
+import {
+  AudioCache,
+  audioCacheKey,
+  createTtsProviders,
+  type AudioCacheStats,
+  type TtsAudio,
+  type TtsProvider,
+  type TtsProviderId,
+  type TtsVoice,
+  type TtsVoiceOptions,
+  type TtsVoiceSettings,
+} from '@/lib/tts';
+import type { Caption } from '@/lib/captions';
+import type { AudioOutput } from '@/lib/recorder';
+import type { ClaraPersonality } from '@/store/claraStore';
 
 // The backend no longer emits speech markup, but old history and stale replies still can —
 // strip it before synthesis so tokens like [pause:0.4s] are never read aloud as words.
@@ -25,11 +37,19 @@ export function spokenTextSoFar(raw: string): string {
     .replace(/\\(.)/g, (_, c) => (c === 'n' ? ' ' : c));
 }
 
-// ponytail: hardcoded localhost, no cache. It's a dev-machine sidecar, not a service.
-const VOICE_SERVER = 'http://localhost:8880';
+// Barge-in listens while Clara talks, so the recognizer hears her too — the browser's echo
+// cancellation catches most of it, not all. A transcript whose words are mostly words she said
+// this turn is her own voice coming back, not the user cutting in.
+export function isLikelyEcho(heard: string, spoken: string, overlap: number): boolean {
+  const words = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+  const heardWords = words(heard);
+  if (heardWords.length === 0) return true;
+  const said = new Set(words(spoken));
+  const echoed = heardWords.filter((w) => said.has(w)).length;
+  return echoed / heardWords.length >= overlap;
+}
 
-// The voice server hands back raw little-endian int16 mono — no container, because a WAV header
-// written before the length is known is a lie the client then has to un-believe.
+// PCM providers hand back raw little-endian int16 mono.
 export function pcmToFloat32(bytes: Uint8Array): Float32Array {
   const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
   const out = new Float32Array(bytes.byteLength >> 1);
@@ -37,16 +57,29 @@ export function pcmToFloat32(bytes: Uint8Array): Float32Array {
   return out;
 }
 
+function concatSamples(chunks: Float32Array[]): Float32Array {
+  const out = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
 // Qwen3 delivers a second of audio roughly every 0.86s — enough headroom to keep up, not enough
 // to absorb a slow chunk. Playing the first chunk the instant it lands would let playback catch
 // up with the generator mid-sentence and stutter; this lead-in costs a third of a second once
 // per sentence and buys back the jitter.
 const PLAYBACK_LEAD_S = 0.35;
 
-// Text-to-speech service: local voice server first, browser speechSynthesis fallback.
+// Text-to-speech service: each sentence goes to the first provider in config.aiSpeech.tts order
+// that can speak it — by default the local voice server, then the browser's speechSynthesis.
 export class BrowserSpeechService {
-  private synth: SpeechSynthesis | null = null;
-  private voices: SpeechSynthesisVoice[] = [];
+  private providers: TtsProvider[];
+  // A provider that failed sits out until this time, or until its health check passes.
+  private unavailableUntil = new Map<TtsProvider, number>();
+  private probing = new Set<TtsProvider>();
   private currentAudio: HTMLAudioElement | null = null;
   private speechQueue: string[] = [];
   private isCurrentlySpeaking: boolean = false;
@@ -61,13 +94,18 @@ export class BrowserSpeechService {
   private abortController = new AbortController();
   // At most one sentence read ahead. Deeper queueing just buys the voice server more work to
   // throw away when the user barges in.
-  private prefetched: { text: string; res: Promise<Response> } | null = null;
+  private prefetched: { text: string; provider: TtsProvider; audio: Promise<TtsAudio> } | null = null;
+  // A PCM stream's cache key, until it plays through and its samples can be stored under it.
+  private pendingCacheKeys = new WeakMap<TtsAudio, string>();
 
   // Streaming sentence buffer
   private textBuffer: string = '';
-  // Conditions the voice server's TTS. Set per turn from the stream's context_ready event,
+  // Conditions the TTS engines that take it. Set per turn from the stream's context_ready event,
   // which lands before the first chunk — so even the first sentence is spoken in character.
   private emotion: string = 'calm';
+  private personality: ClaraPersonality = config.session.defaultPersonality;
+  private language: string = config.speech.language;
+  private voiceSettings: TtsVoiceSettings = { voice: null, rate: 1.0, pitch: 1.0, volume: 1.0 };
   // A drained queue only means the turn is over once the stream itself has ended. Mid-reply the
   // queue empties all the time (next sentence not extracted yet, or a slow TTS engine finishing
   // audio before the next chunk lands) — firing onComplete there stops Clara mid-reply and
@@ -78,31 +116,23 @@ export class BrowserSpeechService {
     onComplete?: () => void;
   } = {};
 
-  constructor() {
-    if (typeof window !== 'undefined') {
-      this.synth = window.speechSynthesis;
-      this.loadVoices();
-    }
+  // What the user has actually heard this turn, for barge-in: sentences that played out, plus
+  // how far into the current one playback got. Queued-but-unplayed text was never heard.
+  private turnSentences: string[] = [];
+  private playedSentences: string[] = [];
+  private currentSentence: string | null = null;
+  private currentProgress: () => number = () => 0; // 0–1 through currentSentence
+  private currentAudible: () => boolean = () => false; // has currentSentence's audio begun?
+
+  // Each service keeps its own memory tier; IndexedDB is what instances (and reloads) share.
+  constructor(providers: TtsProvider[] = createTtsProviders(), private readonly cache: AudioCache = new AudioCache()) {
+    this.providers = providers;
   }
 
-  // Load available voices
-  private loadVoices(): void {
-    if (!this.synth) return;
-    
-    this.voices = this.synth.getVoices();
-    if (this.voices.length === 0) {
-      this.synth.onvoiceschanged = () => {
-        if (this.synth) {
-          this.voices = this.synth.getVoices();
-        }
-      };
-    }
-  }
-
-  // Speak a single chunk: local voice server first, browser speechSynthesis if it can't.
+  // Speak a single chunk through the first provider that manages it.
   private speakChunk(
     text: string,
-    options: TextToSpeechOptions,
+    options: TtsVoiceOptions,
     onChunkEnd?: () => void,
     onError?: (error: string) => void
   ) {
@@ -112,42 +142,114 @@ export class BrowserSpeechService {
       return;
     }
 
-    this.speakViaVoiceServer(clean, options.volume ?? 1.0)
+    this.speakWithProviders(clean, options)
       .then(() => onChunkEnd?.())
-      .catch(() => {
+      .catch((error: Error) => onError?.(error.message));
+  }
+
+  // Rejects only once every provider has failed the sentence. Anything else — server down,
+  // non-200, playback refused — moves on to the next provider in line.
+  private async speakWithProviders(text: string, options: TtsVoiceOptions): Promise<void> {
+    for (const provider of this.availableProviders()) {
+      try {
+        const audio = await this.takeAudio(provider, text);
+        if (!this.isCurrentlySpeaking) return; // stopSpeaking() ran while the audio was in flight
+        return await this.play(audio, options);
+      } catch {
         // stopSpeaking() aborted the fetch — that's a cancel, not a failure to speak.
-        if (!this.isCurrentlySpeaking) return onChunkEnd?.();
-        this.speakChunkWithBrowser(clean, options, onChunkEnd, onError);
-      });
+        if (!this.isCurrentlySpeaking) return;
+        this.unavailableUntil.set(provider, Date.now() + config.aiSpeech.tts.healthRecheckMs);
+      }
+    }
+    throw new Error('No TTS provider could speak the sentence');
+  }
+
+  // Providers in order, minus the ones sitting out a failure — each of those gets a health check
+  // so it's back as soon as it recovers. If all of them failed lately, try them all anyway:
+  // a wasted request beats Clara going silent.
+  // The chosen voice's provider goes first: picking a browser voice should get a browser voice,
+  // not the voice server's. The rest keep config order as fallbacks.
+  private orderedProviders(): TtsProvider[] {
+    const chosen = this.voiceSettings.voice?.provider;
+    if (!chosen) return this.providers;
+    return [...this.providers.filter((p) => p.id === chosen), ...this.providers.filter((p) => p.id !== chosen)];
+  }
+
+  private availableProviders(): TtsProvider[] {
+    const now = Date.now();
+    const ordered = this.orderedProviders();
+    const available = ordered.filter((provider) => {
+      if ((this.unavailableUntil.get(provider) ?? 0) <= now) return true;
+      this.probe(provider);
+      return false;
+    });
+    return available.length > 0 ? available : ordered;
+  }
+
+  private probe(provider: TtsProvider) {
+    if (this.probing.has(provider)) return;
+    this.probing.add(provider);
+    void provider
+      .checkHealth()
+      .then((healthy) => { if (healthy) this.unavailableUntil.delete(provider); })
+      .finally(() => this.probing.delete(provider));
   }
 
-  // POST the sentence to the local voice server and play it. Rejects on anything (server down,
-  // non-200, playback refused) so the caller can fall back to the browser voice.
-  private async speakViaVoiceServer(text: string, volume: number): Promise<void> {
-    const res = await this.takeResponse(text);
-    if (!res.ok) throw new Error(`Voice server responded ${res.status}`);
-    if (!this.isCurrentlySpeaking) return; // stopSpeaking() ran while the audio was in flight
+  // Health of every configured provider, checked now — for settings and diagnostics. Also
+  // updates which providers sit out.
+  async checkProviders(): Promise<{ id: TtsProviderId; healthy: boolean }[]> {
+    return Promise.all(
+      this.providers.map(async (provider) => {
+        const healthy = await provider.checkHealth();
+        if (healthy) this.unavailableUntil.delete(provider);
+        else this.unavailableUntil.set(provider, Date.now() + config.aiSpeech.tts.healthRecheckMs);
+        return { id: provider.id, healthy };
+      })
+    );
+  }
 
-    // The server falls back to a whole Kokoro WAV when Qwen3 can't start in time.
-    if (res.headers.get('Content-Type')?.includes('audio/wav')) return this.playWav(res, volume);
-    return this.playPcmStream(res, volume);
+  // Every voice the providers offer, for voice settings. One that can't list (down, or no
+  // catalogue) just contributes nothing.
+  async listVoices(): Promise<TtsVoice[]> {
+    const lists = await Promise.all(
+      this.providers.map((provider) => provider.listVoices?.().catch(() => []) ?? Promise.resolve([]))
+    );
+    return lists.flat();
   }
 
-  private postSpeech(text: string): Promise<Response> {
-    return fetch(`${VOICE_SERVER}/v1/audio/speech/stream`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ input: text, emotion: this.emotion }),
+  // Cached audio if this sentence was spoken the same way before; otherwise the provider's. A
+  // WAV is whole and cached now; a PCM stream only once it has played through (see play).
+  private async synthesize(provider: TtsProvider, text: string, settings = this.voiceSettings): Promise<TtsAudio> {
+    const voice = settings.voice?.provider === provider.id ? settings.voice.id : undefined;
+    const request = {
+      emotion: this.emotion,
+      personality: this.personality,
+      language: this.language,
       signal: this.abortController.signal,
-    });
+      rate: settings.rate,
+      ...(voice ? { voice } : {}),
+    };
+    const key = audioCacheKey({ provider: provider.id, text, ...request });
+    const cached = this.cache.persistent ? await this.cache.get(key) : this.cache.getFromMemory(key);
+    if (cached) return cached;
+
+    const audio = await provider.synthesize(text, request);
+    if (audio.kind === 'wav') this.cache.set(key, audio);
+    if (audio.kind === 'pcm') this.pendingCacheKeys.set(audio, key);
+    return audio;
+  }
+
+  // Hits, misses and size of the synthesized-sentence cache, for diagnostics.
+  cacheStats(): AudioCacheStats {
+    return this.cache.stats();
   }
 
-  // Use the prefetched response if it's for this sentence — the queue is FIFO, so it always is
-  // unless a stop cleared it.
-  private takeResponse(text: string): Promise<Response> {
+  // Use the prefetched audio if it's for this sentence from this provider — the queue is FIFO,
+  // so it always is unless a stop cleared it or the provider in front failed meanwhile.
+  private takeAudio(provider: TtsProvider, text: string): Promise<TtsAudio> {
     const ready = this.prefetched;
     this.prefetched = null;
-    return ready?.text === text ? ready.res : this.postSpeech(text);
+    return ready?.text === text && ready.provider === provider ? ready.audio : this.synthesize(provider, text);
   }
 
   // Start the next sentence's synthesis while this one plays: the voice server needs ~1.8s to
@@ -155,43 +257,89 @@ export class BrowserSpeechService {
   private prefetchNext() {
     const next = this.speechQueue[0];
     if (!next || this.prefetched) return;
+    const provider = this.availableProviders()[0];
+    if (!provider) return;
     try {
-      const res = this.postSpeech(next);
-      res.catch(() => {}); // failures surface at play time; this only stops the unhandled reject
-      this.prefetched = { text: next, res };
+      const audio = this.synthesize(provider, next);
+      audio.catch(() => {}); // failures surface at play time; this only stops the unhandled reject
+      this.prefetched = { text: next, provider, audio };
     } catch {
       // Reading ahead is an optimization — never let it break queuing. Play time retries.
     }
   }
 
+  private play(audio: TtsAudio, options: TtsVoiceOptions): Promise<void> {
+    const volume = options.volume ?? 1.0;
+    switch (audio.kind) {
+      case 'pcm': {
+        const key = this.pendingCacheKeys.get(audio);
+        return this.playPcmStream(audio.body, audio.sampleRate, volume, (samples) => {
+          if (key) this.cache.set(key, { kind: 'decoded', samples, sampleRate: audio.sampleRate });
+        });
+      }
+      case 'wav':
+        return this.playWav(audio.blob, volume);
+      case 'decoded':
+        return this.playDecoded(audio.samples, audio.sampleRate, volume);
+      case 'native': {
+        const speech = audio.speak(options);
+        this.currentProgress = speech.progress;
+        this.currentAudible = speech.started ?? (() => speech.progress() > 0);
+        return speech.done;
+      }
+    }
+  }
+
+  // The shared graph's context, with Clara on its voice bus. Autoplay policy: the conversation
+  // always starts from a click, so resuming it is silent.
   private audioContext(): AudioContext {
-    if (!this.ctx) {
-      const Ctor = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
-      this.ctx = new Ctor();
+    const graph = getAudioGraph();
+    this.ctx = graph.context();
+    if (!this.gain) {
       this.gain = this.ctx.createGain();
-      this.gain.connect(this.ctx.destination);
+      this.gain.connect(graph.bus('voice'));
     }
-    // Autoplay policy: the conversation always starts from a click, so this resolves silently.
-    if (this.ctx.state === 'suspended') void this.ctx.resume();
     return this.ctx;
   }
 
+  // Clara's voice as a node to tap, for recording. It carries everything played through Web Audio;
+  // browser voices play themselves and never pass through it.
+  audioOutput(): AudioOutput {
+    const context = this.audioContext();
+    return { context, output: this.gain! };
+  }
+
   // Read the PCM stream and hand each chunk to Web Audio back-to-back. Resolves when the last
   // scheduled chunk has finished playing — the caller's "still speaking" depends on it.
-  private async playPcmStream(res: Response, volume: number): Promise<void> {
-    if (!res.body) throw new Error('Voice server sent no body');
-    const sampleRate = Number(res.headers.get('X-Sample-Rate')) || 24000;
+  // onComplete gets the whole sentence's samples, only if the stream was read to the end.
+  private async playPcmStream(
+    body: ReadableStream<Uint8Array>,
+    sampleRate: number,
+    volume: number,
+    onComplete?: (samples: Float32Array) => void
+  ): Promise<void> {
     const ctx = this.audioContext();
     if (this.gain) this.gain.gain.value = volume;
 
-    const reader = res.body.getReader();
+    const reader = body.getReader();
     this.playCursor = Math.max(this.playCursor, ctx.currentTime + PLAYBACK_LEAD_S);
+    const startsAt = this.playCursor;
     let leftover = new Uint8Array(0); // a read can split an int16 down the middle
     let last: AudioBufferSourceNode | null = null;
+    const decoded: Float32Array[] = [];
+    // The end keeps moving while the server is still generating, so mid-stream this
+    // overestimates progress a little. Good enough to tell "heard it" from "didn't".
+    // Nothing scheduled yet is nothing heard, however long the first chunk takes.
+    this.currentProgress = () =>
+      last ? (ctx.currentTime - startsAt) / Math.max(this.playCursor - startsAt, 1e-3) : 0;
+    this.currentAudible = () => last !== null && ctx.currentTime >= startsAt;
 
     for (;;) {
       const { done, value } = await reader.read();
-      if (done) break;
+      if (done) {
+        onComplete?.(concatSamples(decoded));
+        break;
+      }
       if (!this.isCurrentlySpeaking) {
         void reader.cancel().catch(() => {});
         break;
@@ -205,7 +353,11 @@ export class BrowserSpeechService {
       }
       const usable = bytes.length - (bytes.length % 2);
       leftover = bytes.slice(usable); // at most one byte; a copy keeps it off the read's buffer
-      if (usable) last = this.scheduleChunk(pcmToFloat32(bytes.subarray(0, usable)), sampleRate, ctx);
+      if (usable) {
+        const samples = pcmToFloat32(bytes.subarray(0, usable));
+        decoded.push(samples);
+        last = this.scheduleChunk(samples, sampleRate, ctx);
+      }
     }
 
     if (!last) return;
@@ -213,6 +365,17 @@ export class BrowserSpeechService {
     await new Promise<void>((resolve) => { last!.onended = () => resolve(); });
   }
 
+  // A cached sentence: already decoded, so one buffer and no lead-in.
+  private async playDecoded(samples: Float32Array, sampleRate: number, volume: number): Promise<void> {
+    const ctx = this.audioContext();
+    if (this.gain) this.gain.gain.value = volume;
+    const source = this.scheduleChunk(samples, sampleRate, ctx);
+    const startsAt = this.playCursor - samples.length / sampleRate;
+    this.currentProgress = () => (ctx.currentTime - startsAt) / Math.max(this.playCursor - startsAt, 1e-3);
+    this.currentAudible = () => ctx.currentTime >= startsAt;
+    await new Promise<void>((resolve) => { source.onended = () => resolve(); });
+  }
+
   private scheduleChunk(samples: Float32Array, sampleRate: number, ctx: AudioContext): AudioBufferSourceNode {
     const buffer = ctx.createBuffer(1, samples.length, sampleRate);
     buffer.getChannelData(0).set(samples);
@@ -235,17 +398,19 @@ export class BrowserSpeechService {
     this.playCursor = 0;
   }
 
-  // Whole-WAV playback: the server's Kokoro fallback, and nothing else.
-  private async playWav(res: Response, volume: number): Promise<void> {
-    const url = URL.createObjectURL(await res.blob());
+  // Whole-WAV playback, for providers that can't stream — the voice server's Kokoro fallback.
+  private async playWav(blob: Blob, volume: number): Promise<void> {
+    const url = URL.createObjectURL(blob);
     const audio = new Audio(url);
     audio.volume = volume;
     this.currentAudio = audio;
+    this.currentProgress = () => (audio.duration ? audio.currentTime / audio.duration : 0);
+    this.currentAudible = () => audio.currentTime > 0;
     try {
       await new Promise<void>((resolve, reject) => {
         audio.onended = () => resolve();
         audio.onpause = () => resolve(); // stopSpeaking() pauses — mirrors synth's 'canceled'
-        audio.onerror = () => reject(new Error('Voice server audio playback failed'));
+        audio.onerror = () => reject(new Error('TTS audio playback failed'));
         audio.play().catch(reject);
       });
     } finally {
@@ -254,160 +419,55 @@ export class BrowserSpeechService {
     }
   }
 
-  // Speak a single chunk of text
-  private speakChunkWithBrowser(
-    text: string,
-    options: TextToSpeechOptions,
-    onChunkEnd?: () => void,
-    onError?: (error: string) => void
-  ) {
-    if (!text.trim() || !this.synth) {
-      onChunkEnd?.();
-      return;
-    }
-
-    // Check if voices are loaded
-    if (this.voices.length === 0) {
-      this.loadVoices();
-      setTimeout(() => {
-        if (this.voices.length === 0) {
-          onError?.('No voices available');
-          return;
-        }
-        this.speakChunkWithBrowser(text, options, onChunkEnd, onError);
-      }, 500);
-      return;
-    }
-
-    // Create utterance with settings
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.voice = this.getDefaultVoice();
-    utterance.rate = options.rate ?? 0.9;
-    utterance.pitch = options.pitch ?? 1;
-    utterance.volume = options.volume ?? 1.0;
-    utterance.lang = 'en-GB';
-
-    utterance.onend = () => onChunkEnd?.();
-
-    utterance.onerror = (event) => {
-      if (event.error === 'canceled') {
-        onChunkEnd?.();
-        return;
-      }
-      onError?.(`Speech error: ${event.error}`);
-    };
-
-    // Speak the chunk
-    try {
-      this.synth.speak(utterance);
-    } catch (error) {
-      onError?.(`Failed to start speech: ${error}`);
-    }
-  }
-
-  // Get curated list of premium high-quality voices
-  private getPreferredVoices(): string[] {
-    return [
-      'Google UK English Female',
-      'Samantha',
-      'Google UK English Male', // backup Google option
-      'Microsoft Hazel - English (Great Britain)',
-      'Microsoft Susan - English (Great Britain)', 
-      'Microsoft George - English (Great Britain)',
-      'Microsoft Aria - English (United States)',
-      'Microsoft Emma - English (Great Britain)',
-      'Microsoft Libby - English (Great Britain)',
-      'Alex', // High-quality macOS voice
-      'Karen', // Quality system voice
-      'Victoria', // Quality system voice
-      'Google US English',
-      'Google Polski', // fallback if available
-    ];
-  }
-
-  // Get default English voice (prefer curated high-quality voices)
-  private getDefaultVoice(): SpeechSynthesisVoice | null {
-    const englishVoices = this.voices.filter(voice => voice.lang.startsWith('en'));
-    if (englishVoices.length === 0) return null;
-    
-    const preferredVoiceNames = this.getPreferredVoices();
-    
-    // Priority 1: Find exact matches from preferred list
-    for (const preferredName of preferredVoiceNames) {
-      const exactMatch = englishVoices.find(voice => 
-        voice.name === preferredName || 
-        voice.name.toLowerCase().includes(preferredName.toLowerCase())
-      );
-      if (exactMatch) {
-        return exactMatch;
-      }
-    }
-    
-    // Priority 2: UK English voices (en-GB) with quality indicators
-    const ukVoices = englishVoices.filter(voice => 
-      voice.lang.toLowerCase() === 'en-gb' || 
-      voice.lang.toLowerCase() === 'en_gb'
-    );
-    
-    if (ukVoices.length > 0) {
-      // Look for high-quality indicators
-      const qualityIndicators = ['google', 'microsoft', 'natural', 'neural', 'premium'];
-      const qualityUkVoice = ukVoices.find(voice => {
-        const voiceName = voice.name.toLowerCase();
-        return qualityIndicators.some(indicator => voiceName.includes(indicator));
-      });
-      
-      if (qualityUkVoice) return qualityUkVoice;
-      
-      // Exclude male voices and low-quality voices
-      const maleIndicators = ['male', 'man', 'daniel', 'james', 'arthur', 'rishi', 'ryan', 'tom', 'david', 'george', 'alex', 'mark', 'oliver', 'thomas', 'brian', 'william'];
-      const lowQualityIndicators = ['espeak', 'basic', 'simple'];
-      
-      const qualityUkVoices = ukVoices.filter(voice => {
-        const voiceName = voice.name.toLowerCase();
-        const isMale = maleIndicators.some(name => voiceName.includes(name));
-        const isLowQuality = lowQualityIndicators.some(indicator => voiceName.includes(indicator));
-        return !isMale && !isLowQuality;
-      });
-      
-      if (qualityUkVoices.length > 0) return qualityUkVoices[0];
-      return ukVoices[0]; // Fallback to any UK voice
-    }
-    
-    // Priority 3: Local/system voices (better quality and volume)
-    const localVoices = englishVoices.filter(voice => voice.localService);
-    if (localVoices.length > 0) {
-      // Prefer known high-quality local voices
-      const qualityLocalVoice = localVoices.find(voice => {
-        const voiceName = voice.name.toLowerCase();
-        return ['samantha', 'alex', 'karen', 'victoria', 'susan'].some(name => voiceName.includes(name));
-      });
-      
-      if (qualityLocalVoice) return qualityLocalVoice;
-      return localVoices[0];
-    }
-    
-    // Priority 4: Default voice
-    const defaultVoice = englishVoices.find(voice => voice.default);
-    if (defaultVoice) return defaultVoice;
-    
-    // Priority 5: Any remaining English voice
-    return englishVoices[0];
-  }
-
   // Stop speaking with enhanced pause control
   stopSpeaking() {
     this.isCurrentlySpeaking = false;
     // The turn is over whatever the stream was doing — let the pending drain end it.
     if (this.turnState === 'streaming') this.turnState = 'ended';
     this.speechQueue = [];
-    this.currentAudio?.pause(); // fires 'pause' → the fetch promise resolves like a cancel
-    this.synth?.cancel();
+    this.currentAudio?.pause(); // fires 'pause' → the playback promise resolves like a cancel
+    this.providers.forEach((provider) => provider.stop?.());
     this.stopScheduled();
     this.abortController.abort(); // kills the reader and any prefetch in flight
     this.abortController = new AbortController();
     this.prefetched = null;
     this.textBuffer = '';
+    this.currentSentence = null; // a cancelled sentence's late chunk-end must not count it as played
+  }
+
+  // Everything heard so far this turn: whole sentences that finished, then the words of the
+  // current one that playback had reached.
+  heardText(): string {
+    const heard = [...this.playedSentences];
+    if (this.currentSentence) {
+      const words = this.currentSentence.split(/\s+/);
+      const progress = Math.min(Math.max(this.currentProgress(), 0), 1);
+      const partial = words.slice(0, Math.floor(words.length * progress)).join(' ');
+      if (partial) heard.push(partial);
+    }
+    return heard.join(' ');
+  }
+
+  // The sentence coming out of the speakers right now and how far through it playback is — not
+  // the one being synthesized or queued behind it. Null between sentences.
+  caption(): Caption | null {
+    if (!this.currentSentence || !this.currentAudible()) return null;
+    return { text: this.currentSentence, progress: Math.min(Math.max(this.currentProgress(), 0), 1) };
+  }
+
+  // Everything Clara has said or queued this turn — what an echo of her would contain.
+  turnText(): string {
+    return this.turnSentences.join(' ');
+  }
+
+  // The user barged in: stop, and hand back what they heard before cutting her off. Unlike
+  // stopSpeaking, the turn ends here and onComplete never fires — the mic is already the
+  // user's, and auto-restarting it would toggle their session off.
+  interrupt(): string {
+    const heard = this.heardText();
+    this.stopSpeaking();
+    this.turnState = 'idle';
+    return heard;
   }
 
   // Queue a sentence for speech
@@ -423,12 +483,13 @@ export class BrowserSpeechService {
     if (!cleanedText || /^\.+$/.test(cleanedText)) return;
 
     this.speechQueue.push(cleanedText);
+    this.turnSentences.push(cleanedText);
 
     // Notify callback
     this.streamingCallbacks.onSentenceQueued?.(cleanedText);
 
     // Start speaking if not already
-    if (!this.isCurrentlySpeaking && this.synth) {
+    if (!this.isCurrentlySpeaking && this.providers.length > 0) {
       this.speakNextChunk();
     } else {
       this.prefetchNext(); // queued behind the sentence being spoken — warm it now
@@ -441,8 +502,42 @@ export class BrowserSpeechService {
     this.emotion = emotion || 'calm';
   }
 
+  // How browser voices act out the emotion — the voice server has one delivery for everyone
+  setPersonality(personality: ClaraPersonality) {
+    this.personality = personality;
+  }
+
+  // Takes effect from the next sentence synthesized
+  setLanguage(language: string) {
+    this.language = language;
+  }
+
+  setVoiceSettings(settings: TtsVoiceSettings) {
+    this.voiceSettings = settings;
+  }
+
+  // Say `text` once in `settings`, outside any turn — voice settings' preview button. Cuts off
+  // whatever this service was saying.
+  async preview(text: string, settings: TtsVoiceSettings): Promise<void> {
+    this.stopSpeaking();
+    const provider = this.providers.find((p) => p.id === settings.voice?.provider) ?? this.availableProviders()[0];
+    if (!provider) return;
+    this.isCurrentlySpeaking = true;
+    try {
+      const audio = await this.synthesize(provider, text, settings);
+      if (this.isCurrentlySpeaking) await this.play(audio, settings);
+    } finally {
+      this.isCurrentlySpeaking = false;
+    }
+  }
+
   // Buffer streamed text and queue each complete sentence
   queueStreamingChunk(chunk: string) {
+    if (this.turnState === 'idle') {
+      this.turnSentences = [];
+      this.playedSentences = [];
+      this.currentSentence = null;
+    }
     this.turnState = 'streaming';
     for (const char of chunk) {
       this.textBuffer += char;
@@ -497,7 +592,9 @@ export class BrowserSpeechService {
 
   // Speak next chunk in queue
   private speakNextChunk() {
-    if (this.speechQueue.length === 0 || !this.synth) {
+    if (this.currentSentence) this.playedSentences.push(this.currentSentence);
+    this.currentSentence = null;
+    if (this.speechQueue.length === 0 || this.providers.length === 0) {
       this.isCurrentlySpeaking = false;
       this.endTurnIfDrained(); // a gap mid-stream is not the end of the turn
       return;
@@ -505,11 +602,14 @@ export class BrowserSpeechService {
 
     this.isCurrentlySpeaking = true;
     const sentence = this.speechQueue.shift()!;
+    this.currentSentence = sentence;
+    this.currentProgress = () => 0;
+    this.currentAudible = () => false;
     this.prefetchNext();
 
     this.speakChunk(
       sentence,
-      { volume: 1.0, rate: 1.0, pitch: 1.0 },
+      this.voiceSettings,
       () => this.speakNextChunk(),
       (error) => {
         console.error('Speech chunk error:', error);
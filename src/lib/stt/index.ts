@@ -0,0 +1,37 @@
+import { config } from '@/lib/config';
+import { isLocalSttSupported, LocalServerSttProvider } from './localServer';
+import type { SttProvider, SttProviderId } from './types';
+import { isWebSpeechRecognitionSupported, WebSpeechRecognitionProvider } from './webSpeech';
+
+export type { SttListener, SttProvider, SttProviderId } from './types';
+export { LocalServerSttProvider, WebSpeechRecognitionProvider };
+
+type SttConfig = typeof config.speech.stt;
+
+const engines: Record<SttProviderId, { isSupported: (stt: SttConfig) => boolean; create: (stt: SttConfig) => SttProvider }> = {
+  'web-speech': {
+    isSupported: isWebSpeechRecognitionSupported,
+    create: () => new WebSpeechRecognitionProvider(),
+  },
+  'local-server': {
+    isSupported: (stt) => isLocalSttSupported(stt.localServer.url),
+    create: (stt) => new LocalServerSttProvider({
+      url: stt.localServer.url,
+      language: config.speech.language,
+      chunkMs: stt.localServer.chunkMs,
+      noSpeechTimeout: stt.localServer.noSpeechTimeout,
+    }),
+  },
+};
+
+const isProviderId = (id: string): id is SttProviderId => id in engines;
+
+// The first engine in config.speech.stt.providers order that this browser can run.
+export function preferredSttProvider(stt: SttConfig = config.speech.stt): SttProviderId | null {
+  return stt.providers.filter(isProviderId).find((id) => engines[id].isSupported(stt)) ?? null;
+}
+
+export function createSttProvider(stt: SttConfig = config.speech.stt): SttProvider | null {
+  const id = preferredSttProvider(stt);
+  return id ? engines[id].create(stt) : null;
+}
@@ -0,0 +1,110 @@
+import { LocalServerSttProvider } from './localServer';
+
+// Just enough MediaRecorder and WebSocket to drive a session by hand.
+class FakeRecorder {
+  static isTypeSupported = (type: string) => type.startsWith('audio/webm');
+  state: 'inactive' | 'recording' = 'inactive';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  timeslice: number | null = null;
+  start(timeslice: number) { this.state = 'recording'; this.timeslice = timeslice; }
+  stop() { this.state = 'inactive'; }
+}
+
+class FakeSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static last: FakeSocket;
+  readyState = FakeSocket.CONNECTING;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  constructor(public url: URL) { FakeSocket.last = this; }
+  send(data: unknown) { this.sent.push(data); }
+  close = jest.fn(() => { this.readyState = 3; });
+  open() { this.readyState = FakeSocket.OPEN; this.onopen?.(); }
+  receive(message: object) { this.onmessage?.({ data: JSON.stringify(message) }); }
+}
+
+const track = { stop: jest.fn() };
+let recorder: FakeRecorder;
+
+beforeAll(() => {
+  Object.assign(global, {
+    WebSocket: FakeSocket,
+    MediaRecorder: Object.assign(jest.fn(() => (recorder = new FakeRecorder())), { isTypeSupported: FakeRecorder.isTypeSupported }),
+  });
+  navigator.mediaDevices.getUserMedia = jest.fn().mockResolvedValue({ getTracks: () => [track] });
+});
+
+// The shared mic manager takes a few microtasks to hand over the stream
+const micOpened = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+const provider = () =>
+  new LocalServerSttProvider({ url: 'ws://localhost:9000/transcribe', language: 'en-US', chunkMs: 250, noSpeechTimeout: 8000 });
+
+describe('LocalServerSttProvider', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('streams recorded audio and passes interim and final transcripts through', async () => {
+    const stt = provider();
+    const results: unknown[] = [];
+    const session = stt.startListening((result) => results.push(result));
+    await micOpened();
+
+    const socket = FakeSocket.last;
+    expect(socket.url.searchParams.get('language')).toBe('en-US');
+    expect(socket.url.searchParams.get('mime')).toBe('audio/webm;codecs=opus');
+
+    socket.open();
+    expect(recorder.timeslice).toBe(250);
+    const chunk = new Blob(['audio']);
+    recorder.ondataavailable?.({ data: chunk });
+    expect(socket.sent).toEqual([chunk]);
+
+    socket.receive({ text: 'hello', final: false });
+    socket.receive({ text: 'hello clara', final: true });
+    expect(results).toEqual([
+      { transcript: 'hello', isFinal: false },
+      { transcript: 'hello clara', isFinal: true },
+    ]);
+
+    await stt.stopListening();
+    await expect(session).resolves.toBeUndefined();
+    expect(recorder.state).toBe('inactive');
+    expect(track.stop).toHaveBeenCalled();
+    expect(socket.close).toHaveBeenCalled();
+  });
+
+  it('ends a session that hears nothing, like Chrome\'s no-speech', async () => {
+    jest.useFakeTimers();
+    const session = provider().startListening(jest.fn());
+    await micOpened();
+    FakeSocket.last.open();
+
+    jest.advanceTimersByTime(8000);
+    await expect(session).resolves.toBeUndefined();
+    jest.useRealTimers();
+  });
+
+  it('rejects with a readable message when the server is unreachable', async () => {
+    const session = provider().startListening(jest.fn());
+    await micOpened();
+    FakeSocket.last.onerror?.();
+
+    await expect(session).rejects.toThrow('Could not reach the transcription server.');
+  });
+
+  it('hands the mic back when the recorder cannot be created', async () => {
+    (MediaRecorder as unknown as jest.Mock).mockImplementationOnce(() => {
+      throw new DOMException('Unsupported', 'NotSupportedError');
+    });
+
+    await expect(provider().startListening(jest.fn())).rejects.toThrow('Unsupported');
+    expect(FakeSocket.last.close).toHaveBeenCalled();
+    expect(track.stop).toHaveBeenCalled();
+  });
+});
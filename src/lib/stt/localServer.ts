@@ -0,0 +1,110 @@
+import { getMicManager } from '@/lib/mic';
+import type { SttListener, SttProvider } from './types';
+
+export interface LocalSttOptions {
+  url: string; // ws:// or wss:// endpoint of the transcription server
+  language: string; // default when startListening isn't given one
+  chunkMs: number;
+  noSpeechTimeout: number;
+}
+
+// Opus in whatever container this browser records; the server is told which in the URL.
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const pickMimeType = () =>
+  typeof MediaRecorder.isTypeSupported === 'function' ? MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) : undefined;
+
+export const isLocalSttSupported = (url: string) =>
+  !!url &&
+  typeof window !== 'undefined' &&
+  typeof MediaRecorder !== 'undefined' &&
+  typeof WebSocket !== 'undefined' &&
+  !!navigator.mediaDevices?.getUserMedia;
+
+// Records the mic and streams it to a self-hosted Whisper-style server over a WebSocket — works
+// in any browser with MediaRecorder, and no audio leaves the machine it's pointed at.
+//
+// Protocol, one socket per session:
+//   client → server: binary audio chunks every chunkMs, from MediaRecorder
+//   server → client: {"text": "<transcript so far>", "final": boolean} as JSON text frames
+// Either side closing the socket ends the session.
+export class LocalServerSttProvider implements SttProvider {
+  readonly id = 'local-server';
+  private endSession: ((error?: Error) => void) | null = null;
+
+  constructor(private readonly options: LocalSttOptions) {}
+
+  async startListening(onResult: SttListener, language: string = this.options.language): Promise<void> {
+    const stream = await getMicManager().acquire(); // a MicError says what's wrong with the mic
+
+    let socket: WebSocket | undefined;
+    let recorder: MediaRecorder;
+    try {
+      const mimeType = pickMimeType();
+      const url = new URL(this.options.url);
+      url.searchParams.set('language', language);
+      if (mimeType) url.searchParams.set('mime', mimeType);
+
+      socket = new WebSocket(url);
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    } catch (error) {
+      // A bad URL or an unsupported recorder — the session never started, so hand the mic back
+      socket?.close(1000);
+      getMicManager().release();
+      throw error;
+    }
+
+    return new Promise((resolve, reject) => {
+      let opened = false;
+      // Mirrors Chrome's 'no-speech': a session that hears nothing ends instead of listening forever.
+      let noSpeechTimer: ReturnType<typeof setTimeout> | null = setTimeout(() => end(), this.options.noSpeechTimeout);
+
+      const end = (error?: Error) => {
+        if (this.endSession !== end) return;
+        this.endSession = null;
+        if (noSpeechTimer) clearTimeout(noSpeechTimer);
+        if (recorder.state !== 'inactive') recorder.stop();
+        getMicManager().release();
+        if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) socket.close(1000);
+        if (error) reject(error);
+        else resolve();
+      };
+      this.endSession?.(); // one session at a time, like a recognizer
+      this.endSession = end;
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0 && socket.readyState === WebSocket.OPEN) socket.send(event.data);
+      };
+
+      socket.onopen = () => {
+        opened = true;
+        recorder.start(this.options.chunkMs);
+      };
+
+      socket.onmessage = (event) => {
+        let result: { text?: unknown; final?: unknown };
+        try {
+          result = JSON.parse(String(event.data));
+        } catch {
+          return;
+        }
+        if (typeof result.text !== 'string') return;
+        if (noSpeechTimer) {
+          clearTimeout(noSpeechTimer);
+          noSpeechTimer = null;
+        }
+        onResult({ transcript: result.text, isFinal: result.final === true });
+      };
+
+      socket.onerror = () => {
+        end(new Error(opened ? 'Lost connection to the transcription server.' : 'Could not reach the transcription server.'));
+      };
+
+      socket.onclose = () => end();
+    });
+  }
+
+  async stopListening(): Promise<void> {
+    this.endSession?.();
+  }
+}
@@ -0,0 +1,13 @@
+// transcript is everything heard this session so far, not just the newest words.
+export type SttListener = (result: { transcript: string; isFinal: boolean }) => void;
+
+export type SttProviderId = 'web-speech' | 'local-server';
+
+export interface SttProvider {
+  readonly id: SttProviderId;
+  // One listening session. Resolves when it ends, whether the user finished, nothing was heard,
+  // or stopListening ran. Rejects with a message fit for the user. `language` is a BCP 47 tag;
+  // without it the engine listens for config.speech.language.
+  startListening(onResult: SttListener, language?: string): Promise<void>;
+  stopListening(): Promise<void>;
+}
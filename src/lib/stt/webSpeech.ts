@@ -0,0 +1,114 @@
+import { config } from '@/lib/config';
+import { getMicManager } from '@/lib/mic';
+import type { SttListener, SttProvider } from './types';
+
+// Minimal DOM type guards for browsers that expose webkit speech recognition
+type AnySpeechRecognition = {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+};
+
+type SpeechWindow = {
+  SpeechRecognition?: new () => AnySpeechRecognition;
+  webkitSpeechRecognition?: new () => AnySpeechRecognition;
+};
+
+function speechRecognitionImpl(): (new () => AnySpeechRecognition) | undefined {
+  if (typeof window === 'undefined') return undefined;
+  const w = window as unknown as SpeechWindow;
+  return w.SpeechRecognition || w.webkitSpeechRecognition;
+}
+
+// Chrome, Edge and Safari — not Firefox. In Chrome the audio goes to Google's servers.
+export const isWebSpeechRecognitionSupported = () => !!speechRecognitionImpl();
+
+export class WebSpeechRecognitionProvider implements SttProvider {
+  readonly id = 'web-speech';
+  private recognition?: AnySpeechRecognition;
+
+  constructor() {
+    const SpeechRecognitionImpl = speechRecognitionImpl();
+    if (SpeechRecognitionImpl) {
+      const rec: AnySpeechRecognition = new SpeechRecognitionImpl();
+      rec.continuous = config.speech.continuous;
+      rec.interimResults = config.speech.interimResults;
+      rec.lang = config.speech.language;
+      rec.onresult = null;
+      rec.onerror = null;
+      rec.onend = null;
+      this.recognition = rec;
+    }
+  }
+
+  async startListening(onResult: SttListener, language: string = config.speech.language): Promise<void> {
+    if (!this.recognition) throw new Error('Speech recognition unavailable');
+    this.recognition.lang = language;
+
+    // Ensure microphone permission (Brave and some Chromium derivatives require this). The
+    // recognizer opens its own mic, so the shared one is only borrowed for the check; a MicError
+    // says why it failed.
+    await getMicManager().acquire();
+    getMicManager().release();
+
+    return new Promise((resolve, reject) => {
+      if (!this.recognition) return reject(new Error('Speech recognition unavailable'));
+
+      this.recognition.onresult = (event: unknown) => {
+        const evt = event as { resultIndex: number; results: Array<{ 0: { transcript: string }; isFinal: boolean }> };
+        let transcript = '';
+        for (let i = evt.resultIndex; i < evt.results.length; i++) {
+          transcript += evt.results[i][0].transcript;
+          const isFinal = evt.results[i].isFinal;
+          onResult({ transcript, isFinal });
+        }
+      };
+
+      this.recognition.onerror = (e: unknown) => {
+        const err = e as { error?: string };
+        if (err?.error === 'no-speech') {
+          // Non-fatal; resolve to allow caller to continue UI loop
+          return resolve();
+        }
+        if (err?.error === 'network') {
+          return reject(new Error('Speech recognition network error.'));
+        }
+        if (err?.error === 'not-allowed') {
+          return reject(new Error('Microphone permission blocked. Please allow mic access in browser settings.'));
+        }
+        if (err?.error === 'audio-capture') {
+          return reject(new Error('No microphone detected.'));
+        }
+        return reject(e);
+      };
+
+      this.recognition.onend = () => {
+        resolve();
+      };
+
+      try {
+        this.recognition.start();
+      } catch {
+        // Some browsers throw if already started. Stop and retry once.
+        try {
+          this.recognition.stop();
+          this.recognition.start();
+        } catch (err) {
+          reject(err as unknown);
+        }
+      }
+    });
+  }
+
+  async stopListening(): Promise<void> {
+    if (!this.recognition) return;
+    try {
+      this.recognition.stop();
+    } catch {}
+  }
+}
@@ -0,0 +1,60 @@
+import { AudioCache, type AudioCacheOptions, type CachedAudio } from './audioCache';
+
+const options: AudioCacheOptions = { maxEntries: 3, maxBytes: 1000, persist: false, maxPersistedEntries: 2 };
+
+// 4 bytes a sample
+const audio = (samples: number): CachedAudio => ({ kind: 'decoded', samples: new Float32Array(samples), sampleRate: 24000 });
+
+const memoryStore = () => {
+  const saved = new Map<string, unknown>();
+  return {
+    saved,
+    available: () => true,
+    get: async <T,>(key: string) => saved.get(key) as T | undefined,
+    set: async (key: string, value: unknown) => void saved.set(key, value),
+    delete: async (key: string) => void saved.delete(key),
+  };
+};
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('AudioCache', () => {
+  it('evicts the least recently used sentence once over its entry limit', async () => {
+    const cache = new AudioCache(options);
+    cache.set('hello', audio(10));
+    cache.set('one moment', audio(10));
+    cache.set('sorry', audio(10));
+
+    await cache.get('hello'); // now the most recent
+    cache.set('goodbye', audio(10));
+
+    expect(await cache.get('one moment')).toBeNull();
+    expect(await cache.get('hello')).not.toBeNull();
+    expect(cache.stats()).toEqual(expect.objectContaining({ hits: 2, misses: 1, evictions: 1, entries: 3, bytes: 120 }));
+  });
+
+  it('stays under its byte limit, and skips audio bigger than the whole cache', async () => {
+    const cache = new AudioCache(options);
+    cache.set('long', audio(200)); // 800 bytes
+    cache.set('longer', audio(150)); // 600 more: 'long' has to go
+    cache.set('enormous', audio(300));
+
+    expect(await cache.get('long')).toBeNull();
+    expect(await cache.get('enormous')).toBeNull();
+    expect(cache.stats().bytes).toBe(600);
+  });
+
+  it('falls back to IndexedDB after a reload, keeping only the most recent there', async () => {
+    const store = memoryStore();
+    const before = new AudioCache({ ...options, persist: true }, store);
+    before.set('a', audio(1));
+    before.set('b', audio(1));
+    before.set('c', audio(1));
+    await settle();
+
+    const after = new AudioCache({ ...options, persist: true }, store);
+    expect(await after.get('a')).toBeNull();
+    expect(await after.get('c')).toEqual(audio(1));
+    expect(after.stats()).toEqual(expect.objectContaining({ hits: 1, persistedHits: 1 }));
+  });
+});
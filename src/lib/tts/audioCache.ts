@@ -0,0 +1,161 @@
+import { config } from '@/lib/config';
+import { idbKeyval } from '@/lib/idbStorage';
+import type { TtsAudio } from './types';
+
+// What can be kept: audio that's whole and replayable. A PCM stream is cached as the samples it
+// decoded to once it has played through; native speech never is.
+export type CachedAudio = Extract<TtsAudio, { kind: 'decoded' | 'wav' }>;
+
+export interface AudioCacheOptions {
+  maxEntries: number;
+  maxBytes: number;
+  persist: boolean;
+  maxPersistedEntries: number;
+}
+
+export interface AudioCacheStats {
+  hits: number;
+  misses: number;
+  persistedHits: number; // hits that came back from IndexedDB, not memory
+  evictions: number;
+  entries: number;
+  bytes: number;
+}
+
+interface KeyvalStore {
+  available(): boolean;
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const PREFIX = 'tts-audio:';
+const INDEX_KEY = 'tts-audio-index'; // persisted keys, least recently used first
+
+const sizeOf = (audio: CachedAudio) => (audio.kind === 'decoded' ? audio.samples.byteLength : audio.blob.size);
+
+// One sentence as spoken: the same words with another voice, emotion or speed is other audio.
+export const audioCacheKey = (parts: {
+  provider: string;
+  text: string;
+  emotion: string;
+  voice?: string;
+  language: string;
+  rate?: number;
+}) => JSON.stringify([parts.provider, parts.voice ?? '', parts.language, parts.emotion, parts.rate ?? 1, parts.text]);
+
+// LRU of synthesized sentences: memory first, then IndexedDB. Memory is bounded by entry count
+// and bytes; IndexedDB by entry count, tracked in an index of its own.
+export class AudioCache {
+  private memory = new Map<string, CachedAudio>(); // Map order is recency: oldest first
+  private bytes = 0;
+  private counts = { hits: 0, misses: 0, persistedHits: 0, evictions: 0 };
+  // Index updates are read-modify-write; chaining them keeps two from interleaving.
+  private persistQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly options: AudioCacheOptions = config.aiSpeech.tts.cache,
+    private readonly store: KeyvalStore = idbKeyval
+  ) {}
+
+  // Whether get() can find more than getFromMemory(): IndexedDB is on and there.
+  get persistent(): boolean {
+    return this.options.persist && this.store.available();
+  }
+
+  // Memory only, and without yielding — so a miss goes straight on to the provider.
+  getFromMemory(key: string): CachedAudio | null {
+    const inMemory = this.touch(key);
+    this.counts[inMemory ? 'hits' : 'misses']++;
+    return inMemory;
+  }
+
+  // Memory, then IndexedDB.
+  async get(key: string): Promise<CachedAudio | null> {
+    const inMemory = this.touch(key);
+    if (inMemory) {
+      this.counts.hits++;
+      return inMemory;
+    }
+
+    const persisted = this.persistent ? await this.readPersisted(key) : null;
+    if (persisted) {
+      this.remember(key, persisted);
+      this.touchPersisted(key);
+      this.counts.hits++;
+      this.counts.persistedHits++;
+      return persisted;
+    }
+
+    this.counts.misses++;
+    return null;
+  }
+
+  set(key: string, audio: CachedAudio) {
+    if (sizeOf(audio) > this.options.maxBytes) return; // would evict everything else for one sentence
+    this.remember(key, audio);
+    if (this.persistent) {
+      this.enqueuePersist(async () => {
+        await this.store.set(PREFIX + key, audio);
+        await this.updateIndex(key);
+      });
+    }
+  }
+
+  stats(): AudioCacheStats {
+    return { ...this.counts, entries: this.memory.size, bytes: this.bytes };
+  }
+
+  // Mark `key` most recently used
+  private touch(key: string): CachedAudio | null {
+    const audio = this.memory.get(key);
+    if (!audio) return null;
+    this.memory.delete(key);
+    this.memory.set(key, audio);
+    return audio;
+  }
+
+  private remember(key: string, audio: CachedAudio) {
+    const previous = this.memory.get(key);
+    if (previous) {
+      this.bytes -= sizeOf(previous);
+      this.memory.delete(key);
+    }
+    this.memory.set(key, audio);
+    this.bytes += sizeOf(audio);
+
+    for (const [oldest, evicted] of this.memory) {
+      if (this.memory.size <= this.options.maxEntries && this.bytes <= this.options.maxBytes) break;
+      this.memory.delete(oldest);
+      this.bytes -= sizeOf(evicted);
+      this.counts.evictions++;
+    }
+  }
+
+  private async readPersisted(key: string): Promise<CachedAudio | null> {
+    try {
+      return (await this.store.get<CachedAudio>(PREFIX + key)) ?? null;
+    } catch {
+      return null; // a broken IndexedDB is a miss, not a failed sentence
+    }
+  }
+
+  private touchPersisted(key: string) {
+    this.enqueuePersist(() => this.updateIndex(key));
+  }
+
+  // Move `key` to the recent end, and drop whatever falls off the old end.
+  private async updateIndex(key: string) {
+    const index = ((await this.store.get<string[]>(INDEX_KEY)) ?? []).filter((k) => k !== key);
+    index.push(key);
+    const dropped = index.splice(0, Math.max(index.length - this.options.maxPersistedEntries, 0));
+    await Promise.all(dropped.map((k) => this.store.delete(PREFIX + k)));
+    await this.store.set(INDEX_KEY, index);
+  }
+
+  private enqueuePersist(task: () => Promise<void>) {
+    this.persistQueue = this.persistQueue.then(task).catch((error) => {
+      console.warn('Could not persist TTS audio cache:', error);
+    });
+  }
+}
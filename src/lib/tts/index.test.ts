@@ -0,0 +1,128 @@
+import { config } from '@/lib/config';
+import { createTtsProviders, OpenAiCompatibleProvider, prosodyFor, VoiceServerProvider, WebSpeechProvider } from '.';
+
+const signal = new AbortController().signal;
+
+describe('createTtsProviders', () => {
+  it('builds the providers in configured order, skipping unknown ids', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const providers = createTtsProviders({ ...config.aiSpeech.tts, providers: ['openai', 'espeak', 'web-speech'] });
+
+    expect(providers.map((provider) => provider.id)).toEqual(['openai', 'web-speech']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('espeak'));
+    warn.mockRestore();
+  });
+});
+
+describe('OpenAiCompatibleProvider', () => {
+  const originalFetch = global.fetch;
+  afterEach(() => { global.fetch = originalFetch; });
+
+  it('asks /v1/audio/speech for raw PCM and streams it at 24 kHz', async () => {
+    const body = {} as ReadableStream<Uint8Array>;
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true, body, headers: { get: () => 'audio/pcm' } });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const provider = new OpenAiCompatibleProvider({ url: 'http://tts.local', model: 'kokoro', voice: 'af_bella', apiKey: 'k' });
+
+    const audio = await provider.synthesize('Hello.', { emotion: 'calm', language: 'en-US', signal });
+
+    expect(audio).toEqual({ kind: 'pcm', body, sampleRate: 24000 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://tts.local/v1/audio/speech');
+    expect(init.headers.Authorization).toBe('Bearer k');
+    expect(JSON.parse(init.body)).toEqual({ model: 'kokoro', voice: 'af_bella', input: 'Hello.', response_format: 'pcm' });
+  });
+
+  it('is unhealthy without a URL and rejects so the next provider speaks', async () => {
+    const provider = new OpenAiCompatibleProvider({ url: '', model: 'tts-1', voice: 'nova' });
+
+    await expect(provider.checkHealth()).resolves.toBe(false);
+    await expect(provider.synthesize('Hello.', { emotion: 'calm', language: 'en-US', signal })).rejects.toThrow();
+  });
+});
+
+describe('VoiceServerProvider', () => {
+  const originalFetch = global.fetch;
+  afterEach(() => { global.fetch = originalFetch; });
+
+  it('lists voices given as bare ids or as objects', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ voices: ['af_bella', { id: 'clara_uk', name: 'Clara', language: 'en-GB' }] }),
+    }) as unknown as typeof fetch;
+
+    const voices = await new VoiceServerProvider('http://voice.local').listVoices();
+
+    expect(global.fetch).toHaveBeenCalledWith('http://voice.local/v1/audio/voices', {});
+    expect(voices).toEqual([
+      { provider: 'voice-server', id: 'af_bella', name: 'af_bella' },
+      { provider: 'voice-server', id: 'clara_uk', name: 'Clara', language: 'en-GB' },
+    ]);
+  });
+
+  it('sends the chosen voice and a non-default speed with the sentence', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true, body: {}, headers: { get: () => null } });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await new VoiceServerProvider('http://voice.local').synthesize('Hello.', {
+      emotion: 'calm', language: 'en-GB', signal, voice: 'clara_uk', rate: 1.25,
+    });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      input: 'Hello.', emotion: 'calm', language: 'en-GB', voice: 'clara_uk', speed: 1.25,
+    });
+  });
+});
+
+describe('WebSpeechProvider prosody', () => {
+  type FakeUtterance = { text: string; rate: number; pitch: number; volume: number; onend: (() => void) | null };
+  const spoken: FakeUtterance[] = [];
+  const synth = {
+    getVoices: () => [{ voiceURI: 'samantha', name: 'Samantha', lang: 'en-US', localService: true, default: true }],
+    speak: jest.fn((utterance: FakeUtterance) => { spoken.push(utterance); }),
+    cancel: jest.fn(),
+  };
+
+  beforeEach(() => {
+    spoken.length = 0;
+    Object.defineProperty(window, 'speechSynthesis', { value: synth, configurable: true });
+    global.SpeechSynthesisUtterance = jest.fn((text: string) => ({ text, onend: null })) as unknown as typeof SpeechSynthesisUtterance;
+  });
+
+  const speak = async (provider: WebSpeechProvider, emotion: string, personality?: 'friendly' | 'sassy' | 'blunt') => {
+    const audio = await provider.synthesize('Hello.', { emotion, language: 'en-US', signal, ...(personality ? { personality } : {}) });
+    if (audio.kind !== 'native') throw new Error('expected native speech');
+    return audio.speak({ rate: 1, pitch: 1, volume: 1 });
+  };
+
+  it('acts out the emotion on top of the user\'s own settings', async () => {
+    const provider = new WebSpeechProvider();
+    await speak(provider, 'happy');
+    await speak(provider, 'sad');
+    const [happy, sad] = spoken;
+
+    expect(sad.rate).toBeLessThan(happy.rate);
+    expect(sad.pitch).toBeLessThan(happy.pitch);
+    expect(sad.volume).toBeLessThan(happy.volume);
+  });
+
+  it('holds a pause after the sentence, which a stop cuts short', async () => {
+    const provider = new WebSpeechProvider();
+    const speech = await speak(provider, 'sad');
+    const done = jest.fn();
+    void speech.done.then(done);
+
+    spoken[0].onend!();
+    await Promise.resolve();
+    expect(done).not.toHaveBeenCalled();
+
+    provider.stop();
+    await Promise.resolve();
+    expect(done).toHaveBeenCalled();
+  });
+
+  it('lets each personality deliver an emotion its own way', () => {
+    expect(prosodyFor('sassy', 'blunt').pitch).toBeLessThan(prosodyFor('sassy', 'friendly').pitch);
+    expect(prosodyFor('something-new', 'sassy')).toEqual(prosodyFor('neutral'));
+  });
+});
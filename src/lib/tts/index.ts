@@ -0,0 +1,40 @@
+import { config } from '@/lib/config';
+import { AudioCache, audioCacheKey } from './audioCache';
+import { OpenAiCompatibleProvider } from './openAiCompatible';
+import { PERSONALITY_PROSODY, prosodyFor } from './prosody';
+import type { TtsProvider, TtsProviderId } from './types';
+import { VoiceServerProvider } from './voiceServer';
+import { WebSpeechProvider } from './webSpeech';
+
+export type {
+  TtsAudio, TtsNativeSpeech, TtsProvider, TtsProviderId, TtsRequest, TtsVoice, TtsVoiceChoice, TtsVoiceOptions, TtsVoiceSettings,
+} from './types';
+export type { AudioCacheStats, CachedAudio } from './audioCache';
+export type { BackendEmotion, EmotionProsody } from './prosody';
+export {
+  AudioCache, audioCacheKey, OpenAiCompatibleProvider, PERSONALITY_PROSODY, prosodyFor, VoiceServerProvider, WebSpeechProvider,
+};
+
+type TtsConfig = typeof config.aiSpeech.tts;
+
+const factories: Record<TtsProviderId, (tts: TtsConfig) => TtsProvider> = {
+  'voice-server': (tts) => new VoiceServerProvider(tts.voiceServer.url),
+  'web-speech': () => new WebSpeechProvider(),
+  openai: (tts) => new OpenAiCompatibleProvider({
+    url: tts.openAi.url,
+    model: tts.openAi.model,
+    voice: tts.openAi.voice,
+    ...(tts.openAi.apiKey ? { apiKey: tts.openAi.apiKey } : {}),
+  }),
+};
+
+const isProviderId = (id: string): id is TtsProviderId => id in factories;
+
+// The providers BrowserSpeechService tries, in config.aiSpeech.tts.providers order.
+export function createTtsProviders(tts: TtsConfig = config.aiSpeech.tts): TtsProvider[] {
+  return tts.providers.flatMap((id) => {
+    if (isProviderId(id)) return [factories[id](tts)];
+    console.warn(`Unknown TTS provider "${id}" in config — skipped`);
+    return [];
+  });
+}
@@ -0,0 +1,59 @@
+import type { TtsAudio, TtsProvider, TtsRequest } from './types';
+
+export interface OpenAiTtsOptions {
+  url: string; // base URL, without /v1
+  model: string;
+  voice: string;
+  apiKey?: string;
+}
+
+// Any server speaking OpenAI's /v1/audio/speech: OpenAI itself, or a self-hosted engine behind
+// the same API. Asks for raw PCM, which the spec fixes at 24 kHz int16 mono, so playback can
+// start on the first bytes instead of after the whole file.
+export class OpenAiCompatibleProvider implements TtsProvider {
+  readonly id = 'openai';
+
+  constructor(private readonly options: OpenAiTtsOptions) {}
+
+  private headers(): Record<string, string> {
+    const { apiKey } = this.options;
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    };
+  }
+
+  async synthesize(text: string, { signal, voice, rate }: TtsRequest): Promise<TtsAudio> {
+    const { url, model } = this.options;
+    if (!url) throw new Error('No OpenAI-compatible TTS URL configured');
+
+    const res = await fetch(`${url}/v1/audio/speech`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model,
+        voice: voice ?? this.options.voice,
+        input: text,
+        response_format: 'pcm',
+        ...(rate !== undefined && rate !== 1 ? { speed: rate } : {}),
+      }),
+      signal,
+    });
+    if (!res.ok) throw new Error(`TTS server responded ${res.status}`);
+
+    // Some compatible servers ignore response_format and send a file anyway.
+    if (res.headers.get('Content-Type')?.includes('audio/wav')) return { kind: 'wav', blob: await res.blob() };
+    if (!res.body) throw new Error('TTS server sent no body');
+    return { kind: 'pcm', body: res.body, sampleRate: 24000 };
+  }
+
+  async checkHealth(signal?: AbortSignal): Promise<boolean> {
+    if (!this.options.url) return false;
+    try {
+      const res = await fetch(`${this.options.url}/v1/models`, { headers: this.headers(), ...(signal ? { signal } : {}) });
+      return res.ok;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import type { ClaraPersonality } from '@/store/claraStore';
+
+// The emotions the backend tags a turn with (conversation_emotion)
+export type BackendEmotion = 'calm' | 'happy' | 'sad' | 'stressed' | 'sassy' | 'neutral';
+
+// How an emotion colours a browser voice. rate, pitch and volume scale the user's own settings,
+// so a slow-speech user still hears happy as faster than sad. Browser voices take no pause
+// markup, so pauseMs is silence held after each sentence.
+export interface EmotionProsody {
+  rate: number;
+  pitch: number;
+  volume: number;
+  pauseMs: number;
+}
+
+const NEUTRAL: EmotionProsody = { rate: 1, pitch: 1, volume: 1, pauseMs: 150 };
+
+const EMOTION_PROSODY: Record<BackendEmotion, EmotionProsody> = {
+  neutral: NEUTRAL,
+  calm: { rate: 0.95, pitch: 1, volume: 0.95, pauseMs: 250 },
+  happy: { rate: 1.08, pitch: 1.12, volume: 1, pauseMs: 120 },
+  sad: { rate: 0.85, pitch: 0.9, volume: 0.85, pauseMs: 400 },
+  stressed: { rate: 1.12, pitch: 1.05, volume: 1, pauseMs: 80 },
+  sassy: { rate: 1.05, pitch: 1.08, volume: 1, pauseMs: 200 },
+};
+
+// Each personality's take on the emotions: only where it differs from EMOTION_PROSODY. Sassy
+// Clara leans into her timing; blunt Clara flattens everything and doesn't linger.
+export const PERSONALITY_PROSODY: Record<ClaraPersonality, Partial<Record<BackendEmotion, Partial<EmotionProsody>>>> = {
+  friendly: {},
+  sassy: {
+    happy: { rate: 1.1 },
+    sassy: { pitch: 1.15, pauseMs: 320 },
+  },
+  blunt: {
+    calm: { rate: 1, pauseMs: 100 },
+    happy: { rate: 1.02, pitch: 1.04, pauseMs: 100 },
+    sad: { rate: 0.95, pitch: 0.96, volume: 0.95, pauseMs: 150 },
+    sassy: { pitch: 1, pauseMs: 100 },
+  },
+};
+
+const isBackendEmotion = (emotion: string): emotion is BackendEmotion => Object.hasOwn(EMOTION_PROSODY, emotion);
+
+// Prosody for `emotion` in `personality`'s voice. Anything the backend adds to its vocabulary
+// later is spoken neutrally until it gets an entry here.
+export function prosodyFor(emotion: string, personality?: ClaraPersonality): EmotionProsody {
+  if (!isBackendEmotion(emotion)) return NEUTRAL;
+  return { ...EMOTION_PROSODY[emotion], ...(personality && PERSONALITY_PROSODY[personality][emotion]) };
+}
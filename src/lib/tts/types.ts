@@ -0,0 +1,64 @@
+import type { ClaraPersonality } from '@/store/claraStore';
+
+export interface TtsVoiceOptions {
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+}
+
+export interface TtsRequest {
+  emotion: string; // conditions engines that take it; the rest ignore it
+  language: string; // BCP 47 tag, e.g. 'es-ES'
+  signal: AbortSignal; // aborted when the turn is stopped or interrupted
+  voice?: string; // this provider's id for the voice the user picked; its own choice when unset
+  rate?: number; // 1 is normal speed. Network engines bake it into the audio
+  personality?: ClaraPersonality; // shapes how browser voices act out the emotion
+}
+
+// A voice a provider offers, for the settings panel to list.
+export interface TtsVoice {
+  provider: TtsProviderId;
+  id: string; // what goes back in TtsRequest.voice
+  name: string;
+  language?: string;
+}
+
+// The user's pick, persisted: which provider, and its id for the voice.
+export interface TtsVoiceChoice {
+  provider: TtsProviderId;
+  id: string;
+}
+
+// Voice settings as the user left them. voice null leaves the choice to the providers.
+export interface TtsVoiceSettings extends Required<TtsVoiceOptions> {
+  voice: TtsVoiceChoice | null;
+}
+
+// What a provider hands back for one sentence. BrowserSpeechService owns playback for all but
+// native: a native engine plays itself and only reports how far it got. Only the audio cache
+// hands back 'decoded' — a PCM stream it kept after playing it through.
+export type TtsAudio =
+  | { kind: 'pcm'; body: ReadableStream<Uint8Array>; sampleRate: number } // int16 mono, little-endian
+  | { kind: 'wav'; blob: Blob }
+  | { kind: 'decoded'; samples: Float32Array; sampleRate: number }
+  | { kind: 'native'; speak: (options: TtsVoiceOptions) => TtsNativeSpeech };
+
+export interface TtsNativeSpeech {
+  done: Promise<void>; // resolves when the sentence ends or is cancelled, rejects on engine error
+  progress: () => number; // 0–1 through the sentence
+  started?: () => boolean; // audible yet; without it, progress past 0 is taken to mean so
+}
+
+export type TtsProviderId = 'voice-server' | 'web-speech' | 'openai';
+
+export interface TtsProvider {
+  readonly id: TtsProviderId;
+  // Rejects when this provider can't speak the sentence, so the next one in line gets it.
+  synthesize(text: string, request: TtsRequest): Promise<TtsAudio>;
+  // Cheap reachability probe: used to bring a provider that failed back into rotation.
+  checkHealth(signal?: AbortSignal): Promise<boolean>;
+  // The voices it can speak in. Providers without a catalogue leave it out.
+  listVoices?(signal?: AbortSignal): Promise<TtsVoice[]>;
+  // Silence anything the provider is playing itself. Network providers have nothing to stop.
+  stop?(): void;
+}
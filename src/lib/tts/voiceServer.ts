@@ -0,0 +1,53 @@
+import type { TtsAudio, TtsProvider, TtsRequest, TtsVoice } from './types';
+
+type ServerVoice = string | { id: string; name?: string; language?: string };
+
+// The dev-machine voice sidecar: Qwen3 streamed as raw PCM, or a whole Kokoro WAV when Qwen3
+// can't start in time.
+export class VoiceServerProvider implements TtsProvider {
+  readonly id = 'voice-server';
+
+  constructor(private readonly url: string) {}
+
+  async synthesize(text: string, { emotion, language, signal, voice, rate }: TtsRequest): Promise<TtsAudio> {
+    const res = await fetch(`${this.url}/v1/audio/speech/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        input: text,
+        emotion,
+        language,
+        ...(voice ? { voice } : {}),
+        ...(rate !== undefined && rate !== 1 ? { speed: rate } : {}),
+      }),
+      signal,
+    });
+    if (!res.ok) throw new Error(`Voice server responded ${res.status}`);
+
+    if (res.headers.get('Content-Type')?.includes('audio/wav')) return { kind: 'wav', blob: await res.blob() };
+    // No container on the PCM: a WAV header written before the length is known is a lie the
+    // client then has to un-believe.
+    if (!res.body) throw new Error('Voice server sent no body');
+    return { kind: 'pcm', body: res.body, sampleRate: Number(res.headers.get('X-Sample-Rate')) || 24000 };
+  }
+
+  async checkHealth(signal?: AbortSignal): Promise<boolean> {
+    try {
+      return (await fetch(`${this.url}/health`, signal ? { signal } : {})).ok;
+    } catch {
+      return false;
+    }
+  }
+
+  // GET /v1/audio/voices → {"voices": [...]}, as bare ids or {id, name, language}.
+  async listVoices(signal?: AbortSignal): Promise<TtsVoice[]> {
+    const res = await fetch(`${this.url}/v1/audio/voices`, signal ? { signal } : {});
+    if (!res.ok) throw new Error(`Voice server responded ${res.status}`);
+    const { voices = [] } = (await res.json()) as { voices?: ServerVoice[] };
+    return voices.map((voice) =>
+      typeof voice === 'string'
+        ? { provider: this.id, id: voice, name: voice }
+        : { provider: this.id, id: voice.id, name: voice.name ?? voice.id, ...(voice.language ? { language: voice.language } : {}) }
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import { baseLanguage, voicesForLanguage } from '@/lib/language';
+import { prosodyFor, type EmotionProsody } from './prosody';
+import type { TtsAudio, TtsNativeSpeech, TtsProvider, TtsRequest, TtsVoice, TtsVoiceOptions } from './types';
+
+// How long to wait for a browser that loads its voice list lazily (Chrome) before giving up.
+const VOICES_WAIT_MS = 500;
+
+// The browser's own speechSynthesis. Always there, never great — the last resort in the default
+// order. Plays itself, so it hands back a native speaker rather than audio.
+export class WebSpeechProvider implements TtsProvider {
+  readonly id = 'web-speech';
+  private synth: SpeechSynthesis | null = null;
+  private voices: SpeechSynthesisVoice[] = [];
+  private endPause: (() => void) | null = null; // ends the pause after a sentence early
+
+  constructor() {
+    if (typeof window !== 'undefined' && window.speechSynthesis) {
+      this.synth = window.speechSynthesis;
+      this.loadVoices();
+    }
+  }
+
+  // Load available voices
+  private loadVoices(): void {
+    if (!this.synth) return;
+    
+    this.voices = this.synth.getVoices();
+    if (this.voices.length === 0) {
+      this.synth.onvoiceschanged = () => {
+        if (this.synth) {
+          this.voices = this.synth.getVoices();
+        }
+      };
+    }
+  }
+
+  async synthesize(text: string, { language, voice: voiceId, emotion, personality }: TtsRequest): Promise<TtsAudio> {
+    if (!this.synth) throw new Error('speechSynthesis is not available');
+    if (this.voices.length === 0) {
+      this.loadVoices();
+      await new Promise((resolve) => setTimeout(resolve, VOICES_WAIT_MS));
+      if (this.voices.length === 0) throw new Error('No voices available');
+    }
+    const synth = this.synth;
+    // The user's pick, if this browser still has it; otherwise our own
+    const voice = this.voices.find((v) => v.voiceURI === voiceId) ?? this.getDefaultVoice(language);
+    const prosody = prosodyFor(emotion, personality);
+    return { kind: 'native', speak: (options) => this.speak(synth, text, voice, language, options, prosody) };
+  }
+
+  private speak(
+    synth: SpeechSynthesis,
+    text: string,
+    voice: SpeechSynthesisVoice | null,
+    language: string,
+    options: TtsVoiceOptions,
+    prosody: EmotionProsody
+  ): TtsNativeSpeech {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.voice = voice;
+    // Engines reject values outside these ranges rather than clamping them
+    utterance.rate = Math.min((options.rate ?? 0.9) * prosody.rate, 10);
+    utterance.pitch = Math.min((options.pitch ?? 1) * prosody.pitch, 2);
+    utterance.volume = Math.min((options.volume ?? 1.0) * prosody.volume, 1);
+    utterance.lang = voice?.lang ?? language;
+
+    let spokenChars = 0;
+    let started = false;
+    utterance.onstart = () => { started = true; };
+    utterance.onboundary = (event) => { spokenChars = event.charIndex; };
+    const done = new Promise<void>((resolve, reject) => {
+      utterance.onend = () => this.holdPause(prosody.pauseMs, resolve);
+      utterance.onerror = (event) => {
+        // stop() cancels mid-sentence — that's the turn ending, not the engine failing.
+        if (event.error === 'canceled') resolve();
+        else reject(new Error(`Speech error: ${event.error}`));
+      };
+      try {
+        synth.speak(utterance);
+      } catch (error) {
+        reject(new Error(`Failed to start speech: ${error}`));
+      }
+    });
+    return { done, progress: () => spokenChars / text.length, started: () => started };
+  }
+
+  async checkHealth(): Promise<boolean> {
+    if (!this.synth) return false;
+    this.loadVoices();
+    return this.voices.length > 0;
+  }
+
+  stop() {
+    this.synth?.cancel();
+    this.endPause?.(); // a stop mid-pause ends the sentence now, like one mid-word
+  }
+
+  // The sentence isn't over until its pause is: the next one starts after it.
+  private holdPause(ms: number, resolve: () => void) {
+    const timer = setTimeout(() => {
+      this.endPause = null;
+      resolve();
+    }, ms);
+    this.endPause = () => {
+      clearTimeout(timer);
+      this.endPause = null;
+      resolve();
+    };
+  }
+
+  // Ids are voiceURIs: unique per browser, unlike names.
+  async listVoices(): Promise<TtsVoice[]> {
+    this.loadVoices();
+    return this.voices.map((voice) => ({ provider: this.id, id: voice.voiceURI, name: voice.name, language: voice.lang }));
+  }
+
+  // Get curated list of premium high-quality voices
+  private getPreferredVoices(): string[] {
+    return [
+      'Google UK English Female',
+      'Samantha',
+      'Google UK English Male', // backup Google option
+      'Microsoft Hazel - English (Great Britain)',
+      'Microsoft Susan - English (Great Britain)', 
+      'Microsoft George - English (Great Britain)',
+      'Microsoft Aria - English (United States)',
+      'Microsoft Emma - English (Great Britain)',
+      'Microsoft Libby - English (Great Britain)',
+      'Alex', // High-quality macOS voice
+      'Karen', // Quality system voice
+      'Victoria', // Quality system voice
+      'Google US English',
+      'Google Polski', // fallback if available
+    ];
+  }
+
+  // Get default voice for the language (prefer curated high-quality voices)
+  private getDefaultVoice(language: string): SpeechSynthesisVoice | null {
+    const languageVoices = voicesForLanguage(this.voices, language);
+    if (languageVoices.length === 0) return null;
+    
+    const preferredVoiceNames = this.getPreferredVoices();
+    
+    // Priority 1: Find exact matches from preferred list
+    for (const preferredName of preferredVoiceNames) {
+      const exactMatch = languageVoices.find(voice => 
+        voice.name === preferredName || 
+        voice.name.toLowerCase().includes(preferredName.toLowerCase())
+      );
+      if (exactMatch) {
+        return exactMatch;
+      }
+    }
+    
+    // Priority 2: UK English voices (en-GB) with quality indicators — Clara is British
+    const ukVoices = baseLanguage(language) !== 'en' ? [] : languageVoices.filter(voice => 
+      voice.lang.toLowerCase() === 'en-gb' || 
+      voice.lang.toLowerCase() === 'en_gb'
+    );
+    
+    if (ukVoices.length > 0) {
+      // Look for high-quality indicators
+      const qualityIndicators = ['google', 'microsoft', 'natural', 'neural', 'premium'];
+      const qualityUkVoice = ukVoices.find(voice => {
+        const voiceName = voice.name.toLowerCase();
+        return qualityIndicators.some(indicator => voiceName.includes(indicator));
+      });
+      
+      if (qualityUkVoice) return qualityUkVoice;
+      
+      // Skip low-quality voices. No guessing at gender from names — the user picks the voice.
+      const lowQualityIndicators = ['espeak', 'basic', 'simple'];
+      
+      const qualityUkVoices = ukVoices.filter(voice => {
+        const voiceName = voice.name.toLowerCase();
+        return !lowQualityIndicators.some(indicator => voiceName.includes(indicator));
+      });
+      
+      if (qualityUkVoices.length > 0) return qualityUkVoices[0];
+      return ukVoices[0]; // Fallback to any UK voice
+    }
+    
+    // Priority 3: Local/system voices (better quality and volume)
+    const localVoices = languageVoices.filter(voice => voice.localService);
+    if (localVoices.length > 0) {
+      // Prefer known high-quality local voices
+      const qualityLocalVoice = localVoices.find(voice => {
+        const voiceName = voice.name.toLowerCase();
+        return ['samantha', 'alex', 'karen', 'victoria', 'susan'].some(name => voiceName.includes(name));
+      });
+      
+      if (qualityLocalVoice) return qualityLocalVoice;
+      return localVoices[0];
+    }
+    
+    // Priority 4: Default voice
+    const defaultVoice = languageVoices.find(voice => voice.default);
+    if (defaultVoice) return defaultVoice;
+    
+    // Priority 5: Any remaining English voice
+    return languageVoices[0];
+  }
+}
@@ -0,0 +1,78 @@
+import { measureFrame, VoiceActivityDetector, type VadTunables } from './vad';
+
+const tunables: VadTunables = {
+  frameMs: 10,
+  calibrationMs: 100,
+  onsetDb: 12,
+  offsetDb: 6,
+  minSpeechMs: 50,
+  maxSpeechMs: 20000,
+  endOfSpeechMs: 300,
+  noiseAdaptRate: 0.05,
+  minSpeechBandRatio: 0.4,
+};
+
+const QUIET = { energyDb: -60, speechBandRatio: 0.2 };
+const VOICE = { energyDb: -30, speechBandRatio: 0.8 };
+
+// Feed `frame` every frameMs for `ms`, starting at `from`. Returns the time it stopped at.
+const feed = (vad: VoiceActivityDetector, frame: typeof QUIET, from: number, ms: number) => {
+  for (let t = from; t < from + ms; t += tunables.frameMs) vad.process(frame, t);
+  return from + ms;
+};
+
+describe('VoiceActivityDetector', () => {
+  it('starts after sustained voice and ends after the hangover of quiet', () => {
+    const onSpeechStart = jest.fn();
+    const onSpeechEnd = jest.fn();
+    const vad = new VoiceActivityDetector({ onSpeechStart, onSpeechEnd }, tunables);
+
+    let t = feed(vad, QUIET, 0, 200); // calibrate on the room
+    t = feed(vad, VOICE, t, 40);
+    expect(onSpeechStart).not.toHaveBeenCalled(); // too short to be speech yet
+    t = feed(vad, VOICE, t, 100);
+    expect(vad.speaking).toBe(true);
+
+    t = feed(vad, QUIET, t, 200); // a pause mid-sentence
+    expect(onSpeechEnd).not.toHaveBeenCalled();
+    t = feed(vad, VOICE, t, 100);
+    feed(vad, QUIET, t, 400);
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+    expect(vad.speaking).toBe(false);
+    expect(vad.heardSpeech).toBe(true);
+  });
+
+  it('ignores clicks, and loud noise outside the voice band', () => {
+    const onSpeechStart = jest.fn();
+    const vad = new VoiceActivityDetector({ onSpeechStart }, tunables);
+
+    let t = feed(vad, QUIET, 0, 200);
+    t = feed(vad, VOICE, t, 30); // a click
+    t = feed(vad, QUIET, t, 50);
+    feed(vad, { energyDb: -30, speechBandRatio: 0.1 }, t, 500); // a fan switching on
+
+    expect(onSpeechStart).not.toHaveBeenCalled();
+  });
+
+  it('raises its threshold with the room', () => {
+    const vad = new VoiceActivityDetector({}, tunables);
+
+    feed(vad, QUIET, 0, 200);
+    const quietRoom = vad.process(QUIET, 200).thresholdDb;
+    feed(vad, { energyDb: -45, speechBandRatio: 0.2 }, 210, 2000);
+    const noisyRoom = vad.process(QUIET, 2210).thresholdDb;
+
+    expect(noisyRoom).toBeGreaterThan(quietRoom + 10);
+  });
+});
+
+describe('measureFrame', () => {
+  it('reports RMS in dBFS and the share of power in the voice band', () => {
+    const samples = new Float32Array(4).fill(0.1); // -20 dBFS
+    const spectrum = new Float32Array(5).fill(-20); // flat, bins at 0–4000 Hz; three in 300–3400
+    const frame = measureFrame(samples, spectrum, 1000);
+
+    expect(frame.energyDb).toBeCloseTo(-20);
+    expect(frame.speechBandRatio).toBeCloseTo(3 / 5);
+  });
+});
@@ -0,0 +1,189 @@
+import { getAudioGraph } from '@/lib/audio-graph';
+import { config } from '@/lib/config';
+
+// Voice activity detection on the mic stream: decides when the user starts and stops talking
+// from the audio itself, so end of turn doesn't have to be guessed from recognizer silence.
+
+export interface VadTunables {
+  frameMs: number;
+  calibrationMs: number;
+  onsetDb: number;
+  offsetDb: number;
+  minSpeechMs: number;
+  maxSpeechMs: number;
+  endOfSpeechMs: number;
+  noiseAdaptRate: number;
+  minSpeechBandRatio: number;
+}
+
+export interface VadFrame {
+  energyDb: number; // frame RMS, dBFS
+  speechBandRatio: number; // share of spectral power in the voice band, 0–1
+}
+
+export interface VadReading extends VadFrame {
+  noiseFloorDb: number;
+  thresholdDb: number;
+  speaking: boolean;
+}
+
+interface VadHandlers {
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+}
+
+const SILENCE_DB = -100;
+const VOICE_BAND_HZ = [300, 3400] as const;
+
+type ReadingListener = (reading: VadReading | null) => void;
+
+const readingListeners = new Set<ReadingListener>();
+
+// Every frame's reading while a detector runs, and null when it stops — for the debug meter.
+export const onVadReading = (listener: ReadingListener) => {
+  readingListeners.add(listener);
+  return () => {
+    readingListeners.delete(listener);
+  };
+};
+
+const emitReading = (reading: VadReading | null) => readingListeners.forEach((listener) => listener(reading));
+
+// jsdom and old browsers have no AnalyserNode float data; there the timers do the work alone.
+export const isVadSupported = () =>
+  typeof window !== 'undefined' &&
+  typeof AnalyserNode !== 'undefined' &&
+  typeof AnalyserNode.prototype.getFloatTimeDomainData === 'function' &&
+  !!(window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext);
+
+export class VoiceActivityDetector {
+  private noiseFloorDb: number | null = null;
+  private startedAt: number | null = null;
+  private voicedSince: number | null = null; // loud frames so far, not yet long enough to count
+  private speechStartedAt = 0;
+  private lastVoiceAt = 0;
+  private isSpeaking = false;
+  private hasHeardSpeech = false;
+
+  private source: MediaStreamAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly handlers: VadHandlers = {},
+    private readonly tunables: VadTunables = config.speech.vad
+  ) {}
+
+  get speaking() {
+    return this.isSpeaking;
+  }
+
+  // Until it has caught one utterance, the detector hasn't shown it can hear this user at all.
+  get heardSpeech() {
+    return this.hasHeardSpeech;
+  }
+
+  // Feed one frame. The noise floor only learns from frames that aren't speech, so a long
+  // sentence can't talk its own threshold up; the floor starts from the room's first frames.
+  process(frame: VadFrame, now: number): VadReading {
+    const t = this.tunables;
+    this.startedAt ??= now;
+    this.noiseFloorDb ??= frame.energyDb;
+    const calibrating = now - this.startedAt < t.calibrationMs;
+    const thresholdDb = this.noiseFloorDb + t.onsetDb;
+
+    // Hysteresis: harder to start than to keep going, so trailing syllables don't flicker off.
+    const voiced = this.isSpeaking
+      ? frame.energyDb > this.noiseFloorDb + t.offsetDb
+      : !calibrating && frame.energyDb > thresholdDb && frame.speechBandRatio >= t.minSpeechBandRatio;
+
+    if (this.isSpeaking) {
+      if (voiced && now - this.speechStartedAt > t.maxSpeechMs) {
+        // Nobody talks without a breath for this long — the room got louder. Re-learn the floor
+        // quietly rather than hold the turn open on noise.
+        this.isSpeaking = false;
+        this.voicedSince = null;
+        this.noiseFloorDb = frame.energyDb;
+      } else if (voiced) {
+        this.lastVoiceAt = now;
+      } else if (now - this.lastVoiceAt >= t.endOfSpeechMs) {
+        this.isSpeaking = false;
+        this.voicedSince = null;
+        this.handlers.onSpeechEnd?.();
+      }
+    } else if (voiced) {
+      this.voicedSince ??= now;
+      if (now - this.voicedSince >= t.minSpeechMs) {
+        this.isSpeaking = true;
+        this.hasHeardSpeech = true;
+        this.speechStartedAt = now;
+        this.lastVoiceAt = now;
+        this.handlers.onSpeechStart?.();
+      }
+    } else {
+      this.voicedSince = null;
+      // Calibration takes the room in quickly; after that the floor drifts with it.
+      const rate = calibrating ? 0.5 : t.noiseAdaptRate;
+      this.noiseFloorDb += (frame.energyDb - this.noiseFloorDb) * rate;
+    }
+
+    const reading = { ...frame, noiseFloorDb: this.noiseFloorDb, thresholdDb, speaking: this.isSpeaking };
+    emitReading(reading);
+    return reading;
+  }
+
+  // Analyse the stream every frameMs. The caller owns the stream and stops its tracks.
+  // On the app's shared context, which is already running: a context of our own, made on a
+  // restart with no gesture behind it, could stay suspended and hear nothing but silence.
+  // The analyser is a dead end off every bus — the mic is listened to, never played.
+  start(stream: MediaStream) {
+    this.stop();
+    const ctx = getAudioGraph().context();
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 1024;
+    analyser.smoothingTimeConstant = 0; // per-frame decisions; hangover does the smoothing
+    this.source = ctx.createMediaStreamSource(stream);
+    this.source.connect(analyser);
+    this.analyser = analyser;
+
+    const samples = new Float32Array(analyser.fftSize);
+    const spectrum = new Float32Array(analyser.frequencyBinCount);
+    const binHz = ctx.sampleRate / analyser.fftSize;
+    this.timer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      analyser.getFloatFrequencyData(spectrum);
+      this.process(measureFrame(samples, spectrum, binHz), performance.now());
+    }, this.tunables.frameMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.source?.disconnect();
+    this.source = null;
+    if (this.analyser) emitReading(null);
+    this.analyser = null;
+    this.noiseFloorDb = null;
+    this.startedAt = null;
+    this.voicedSince = null;
+    this.isSpeaking = false;
+    this.hasHeardSpeech = false;
+  }
+}
+
+export function measureFrame(samples: Float32Array, spectrumDb: Float32Array, binHz: number): VadFrame {
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  const rms = Math.sqrt(sum / Math.max(samples.length, 1));
+  const energyDb = rms > 0 ? Math.max(20 * Math.log10(rms), SILENCE_DB) : SILENCE_DB;
+
+  let total = 0;
+  let band = 0;
+  spectrumDb.forEach((db, bin) => {
+    const power = 10 ** (db / 10);
+    total += power;
+    const hz = bin * binHz;
+    if (hz >= VOICE_BAND_HZ[0] && hz <= VOICE_BAND_HZ[1]) band += power;
+  });
+  return { energyDb, speechBandRatio: total > 0 ? band / total : 0 };
+}
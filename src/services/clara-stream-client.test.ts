@@ -0,0 +1,244 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { ReadableStream } from 'stream/web';
+import { ClaraStreamClient, ClaraStreamError, SseParser, type ClaraStreamEvent } from './clara-stream-client';
+
+// jsdom has neither; the client only needs them at read time
+Object.assign(global, { TextDecoder, TextEncoder });
+
+const request = { message: 'hi', session_id: 1, personality: 'friendly' as const };
+
+const responseOf = (body: ReadableStream<Uint8Array>, status = 200) => ({ ok: status < 400, status, body });
+
+// A fetch response whose body arrives in the given pieces, one read() each
+const streamOf = (pieces: string[], status = 200) => {
+  const encoder = new TextEncoder();
+  return responseOf(new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach((piece) => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    },
+  }), status);
+};
+
+// A body that sends the given pieces and then drops the connection
+const brokenStream = (pieces: string[]) => {
+  const encoder = new TextEncoder();
+  const queue = [...pieces];
+  return responseOf(new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const piece = queue.shift();
+      if (piece === undefined) controller.error(new TypeError('network error'));
+      else controller.enqueue(encoder.encode(piece));
+    },
+  }));
+};
+
+// A body that sends one chunk and then stays open
+const openStream = (cancel: jest.Mock) => responseOf(new ReadableStream<Uint8Array>({
+  start(c) {
+    c.enqueue(new TextEncoder().encode('data: {"chunk":"a"}\n\n'));
+  },
+  cancel,
+}));
+
+const collect = async (client: ClaraStreamClient) => {
+  const events: ClaraStreamEvent[] = [];
+  for await (const event of client.stream(request)) events.push(event);
+  return events;
+};
+
+describe('SseParser', () => {
+  it('joins multi-line data and carries the event name', () => {
+    const parser = new SseParser();
+    const messages = parser.feed('event: response\ndata: {"response":\ndata: "hi"}\n\n');
+
+    expect(messages).toEqual([{ event: 'response', data: '{"response":\n"hi"}', id: null }]);
+  });
+
+  it('handles lines split across reads, CRLF and comments', () => {
+    const parser = new SseParser();
+    expect(parser.feed(': keep-alive\r\nda')).toEqual([]);
+    expect(parser.feed('ta: one\r')).toEqual([]);
+    expect(parser.feed('\n\r\n')).toEqual([{ event: 'message', data: 'one', id: null }]);
+  });
+
+  it('dispatches an unterminated event at end of stream', () => {
+    const parser = new SseParser();
+    expect(parser.feed('data: last')).toEqual([]);
+    expect(parser.end()).toEqual([{ event: 'message', data: 'last', id: null }]);
+  });
+});
+
+describe('ClaraStreamClient', () => {
+  const client = new ClaraStreamClient();
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('yields typed events from named and unnamed messages, stopping at [DONE]', async () => {
+    fetchMock.mockResolvedValue(streamOf([
+      'event: context_ready\ndata: {"conversation_emotion":"happy"}\n\n',
+      'data: {"chunk":"Hel"}\n\ndata: {"chu',
+      'nk":"lo"}\n\n',
+      'event: response\ndata: {"response":"Hello","simulation_context":{"conversation_emotion":"sad"}}\n\n',
+      'data: [DONE]\n\ndata: {"chunk":"ignored"}\n\n',
+    ]));
+
+    const events = await collect(client);
+
+    expect(events.map((e) => e.type)).toEqual(['context_ready', 'chunk', 'chunk', 'response']);
+    expect(events[3]).toEqual({
+      type: 'response',
+      data: { response: 'Hello', simulation_context: { conversation_emotion: 'sad' } },
+    });
+  });
+
+  it('sends the request with the bearer token and dispatches to callbacks', async () => {
+    fetchMock.mockResolvedValue(streamOf(['data: {"chunk":"a"}\n\n', 'data: {"response":"a"}\n\n']));
+    const onChunk = jest.fn();
+    const onResponse = jest.fn();
+
+    await client.run(request, { onChunk, onResponse }, { token: 'tok' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/backend/clara/conversation/stream');
+    expect(init.headers.Authorization).toBe('Bearer tok');
+    expect(JSON.parse(init.body)).toEqual(request);
+    expect(onChunk).toHaveBeenCalledWith({ chunk: 'a' });
+    expect(onResponse).toHaveBeenCalledWith({ response: 'a' });
+  });
+
+  it('throws a ClaraStreamError carrying the status', async () => {
+    fetchMock.mockResolvedValue(streamOf([], 401));
+
+    await expect(collect(client)).rejects.toEqual(
+      expect.objectContaining({ name: 'ClaraStreamError', status: 401 }),
+    );
+    fetchMock.mockResolvedValue(streamOf([], 502));
+    await expect(collect(client)).rejects.toBeInstanceOf(ClaraStreamError);
+  });
+
+  it('rejects with an AbortError and cancels the body when the signal aborts', async () => {
+    const controller = new AbortController();
+    const cancel = jest.fn();
+    fetchMock.mockResolvedValue(openStream(cancel));
+
+    const events: ClaraStreamEvent[] = [];
+    const reading = (async () => {
+      for await (const event of client.stream(request, { signal: controller.signal })) {
+        events.push(event);
+        controller.abort(); // the stream stays open — the next read only ends through the abort
+      }
+    })();
+
+    await expect(reading).rejects.toHaveProperty('name', 'AbortError');
+    expect(events).toHaveLength(1);
+    expect(fetchMock.mock.calls[0][1].signal).toBe(controller.signal);
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('cancels the body when the consumer stops early', async () => {
+    const cancel = jest.fn();
+    fetchMock.mockResolvedValue(openStream(cancel));
+
+    for await (const event of client.stream(request)) {
+      expect(event.type).toBe('chunk');
+      break;
+    }
+    expect(cancel).toHaveBeenCalled();
+  });
+});
+
+describe('ClaraStreamClient.streamWithRetry', () => {
+  const client = new ClaraStreamClient();
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  const collectWithRetry = async (options = {}) => {
+    const events: ClaraStreamEvent[] = [];
+    for await (const event of client.streamWithRetry(request, { baseDelayMs: 0, ...options })) events.push(event);
+    return events;
+  };
+  const bodyOf = (call: number) => JSON.parse(fetchMock.mock.calls[call][1].body);
+
+  it('retries a connection failure before the first chunk from the start', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(streamOf([], 503))
+      .mockResolvedValueOnce(streamOf(['data: {"response":"Hi"}\n\n']));
+    const onReconnecting = jest.fn();
+    const onReconnected = jest.fn();
+
+    const events = await collectWithRetry({ onReconnecting, onReconnected });
+
+    expect(events).toEqual([{ type: 'response', data: { response: 'Hi' } }]);
+    expect(onReconnecting.mock.calls.map(([attempt, resuming]) => [attempt, resuming])).toEqual([[1, false], [2, false]]);
+    expect(onReconnected).toHaveBeenCalledTimes(1);
+    expect(bodyOf(2).resume_offset).toBeUndefined();
+    // Every attempt belongs to the same turn
+    expect(bodyOf(2).correlation_id).toBe(bodyOf(0).correlation_id);
+    expect(fetchMock.mock.calls[0][1].headers['X-Correlation-ID']).toBe(bodyOf(0).correlation_id);
+  });
+
+  it('resumes from the received offset when the stream breaks after partial output', async () => {
+    fetchMock
+      .mockResolvedValueOnce(brokenStream([
+        'event: context_ready\ndata: {"conversation_emotion":"calm","correlation_id":"srv-1"}\n\n',
+        'data: {"chunk":"Hello "}\n\n',
+      ]))
+      .mockResolvedValueOnce(streamOf(['data: {"chunk":"there."}\n\n', 'data: {"response":"Hello there."}\n\n']));
+    const onReconnecting = jest.fn();
+
+    const events = await collectWithRetry({ onReconnecting });
+
+    expect(events.map((e) => e.type)).toEqual(['context_ready', 'chunk', 'chunk', 'response']);
+    expect(onReconnecting).toHaveBeenCalledWith(1, true, expect.any(TypeError));
+    expect(bodyOf(1)).toEqual(expect.objectContaining({ correlation_id: 'srv-1', resume_offset: 6 }));
+  });
+
+  it('resumes a stream that closes before the final response', async () => {
+    fetchMock
+      .mockResolvedValueOnce(streamOf(['data: {"chunk":"Hel"}\n\n']))
+      .mockResolvedValueOnce(streamOf(['data: {"chunk":"lo."}\n\n', 'data: {"response":"Hello."}\n\n']));
+
+    const events = await collectWithRetry();
+
+    expect(events.map((e) => e.type)).toEqual(['chunk', 'chunk', 'response']);
+    expect(bodyOf(1).resume_offset).toBe(3);
+  });
+
+  it('takes [DONE] after chunks as the whole reply, with no final response needed', async () => {
+    fetchMock.mockResolvedValueOnce(streamOf(['data: {"chunk":"Hi "}\n\n', 'data: {"chunk":"there."}\n\n', 'data: [DONE]\n\n']));
+
+    const events = await collectWithRetry();
+
+    expect(events.map((e) => e.type)).toEqual(['chunk', 'chunk']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry auth failures, and gives up after maxRetries', async () => {
+    fetchMock.mockResolvedValue(streamOf([], 401));
+    await expect(collectWithRetry()).rejects.toHaveProperty('status', 401);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockReset().mockRejectedValue(new TypeError('Failed to fetch'));
+    await expect(collectWithRetry({ maxRetries: 2 })).rejects.toBeInstanceOf(TypeError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not reconnect once the final response is in', async () => {
+    fetchMock.mockResolvedValueOnce(brokenStream(['data: {"response":"Done."}\n\n']));
+
+    const events = await collectWithRetry();
+
+    expect(events).toHaveLength(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Clara Stream Client - talks to /clara/conversation/stream
+ * Parses the server-sent event stream into typed events, as an async iterator or via callbacks
+ */
+
+import { config } from '@/lib/config';
+import type { ClaraPersonality } from '@/store/claraStore';
+
+export interface ClaraStreamRequest {
+  message: string;
+  session_id: number;
+  personality: ClaraPersonality;
+  previous_reply_interrupted?: boolean;
+  previous_reply_heard?: string;
+  conversation_id?: string; // continue a logged conversation rather than start one
+  // Ties the retries of one turn together in the backend's logs (meta.correlation_id)
+  correlation_id?: string;
+  resume_offset?: number; // characters of chunk text already received — continue after them
+  language?: string; // BCP 47 tag the user speaks in; Clara replies in it
+}
+
+export interface ClaraSimulationContext {
+  conversation_emotion?: string;
+  [key: string]: unknown;
+}
+
+// Lands before the first chunk, carrying the turn's emotion so the voice can use it from the
+// opening sentence.
+export interface ClaraContextReadyData {
+  conversation_emotion?: string;
+  [key: string]: unknown;
+}
+
+export interface ClaraChunkData {
+  chunk: string; // a slice of the model's raw output — JSON-wrapped or plain prose
+  conversation_emotion?: string;
+  [key: string]: unknown;
+}
+
+export interface ClaraResponseData {
+  response: string; // the authoritative final reply text
+  simulation_context?: ClaraSimulationContext;
+  conversation_emotion?: string;
+  [key: string]: unknown;
+}
+
+export type ClaraStreamEvent =
+  | { type: 'context_ready'; data: ClaraContextReadyData }
+  | { type: 'chunk'; data: ClaraChunkData }
+  | { type: 'response'; data: ClaraResponseData }
+  | { type: 'simulation_context'; data: ClaraSimulationContext }
+  | { type: 'unknown'; event: string; data: unknown };
+
+export interface ClaraStreamHandlers {
+  onEvent?: (event: ClaraStreamEvent) => void;
+  onContextReady?: (data: ClaraContextReadyData) => void;
+  onChunk?: (data: ClaraChunkData) => void;
+  onResponse?: (data: ClaraResponseData) => void;
+  onSimulationContext?: (data: ClaraSimulationContext) => void;
+}
+
+export interface ClaraStreamOptions {
+  token?: string | null;
+  signal?: AbortSignal;
+}
+
+export interface ClaraStreamRetryOptions extends ClaraStreamOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // resuming: the stream broke after partial output, so the retry picks up where it stopped
+  onReconnecting?: (attempt: number, resuming: boolean, error: unknown) => void;
+  onReconnected?: () => void; // first event after a reconnect
+}
+
+export class ClaraStreamError extends Error {
+  constructor(message: string, public readonly status: number | null = null) {
+    super(message);
+    this.name = 'ClaraStreamError';
+  }
+}
+
+export interface SseMessage {
+  event: string; // 'message' when the server named none
+  data: string;
+  id: string | null;
+}
+
+/**
+ * Incremental server-sent events parser (WHATWG HTML §9.2.6). Feed it decoded text as it
+ * arrives; it returns every message completed by that text.
+ */
+export class SseParser {
+  private buffer = '';
+  private eventName = '';
+  private dataLines: string[] = [];
+  private lastEventId: string | null = null;
+
+  feed(text: string): SseMessage[] {
+    this.buffer += text;
+    const messages: SseMessage[] = [];
+    // A trailing \r may be the first half of a \r\n split across reads — wait for the next one.
+    const lines = this.buffer.split(/\r\n|\r(?!$)|\n/);
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const message = this.processLine(line);
+      if (message) messages.push(message);
+    }
+    return messages;
+  }
+
+  // End of stream. The spec drops an event with no closing blank line; we dispatch it instead
+  // so a stream cut short right after its final "data:" line doesn't lose the response.
+  end(): SseMessage[] {
+    const messages: SseMessage[] = [];
+    if (this.buffer) {
+      const message = this.processLine(this.buffer.replace(/\r$/, ''));
+      if (message) messages.push(message);
+      this.buffer = '';
+    }
+    const pending = this.dispatch();
+    if (pending) messages.push(pending);
+    return messages;
+  }
+
+  private processLine(line: string): SseMessage | null {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return null; // comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventName = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      // 'retry' only matters to EventSource's own reconnection; unknown fields are ignored
+    }
+    return null;
+  }
+
+  private dispatch(): SseMessage | null {
+    const hasData = this.dataLines.length > 0;
+    const message = hasData
+      ? { event: this.eventName || 'message', data: this.dataLines.join('\n'), id: this.lastEventId }
+      : null;
+    this.eventName = '';
+    this.dataLines = [];
+    return message;
+  }
+}
+
+const DONE = '[DONE]';
+
+const newCorrelationId = () =>
+  globalThis.crypto?.randomUUID?.() ?? `turn-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Worth another try: network failures, gateway errors, rate limiting. Not: auth, bad requests.
+const isRetryable = (error: unknown) => {
+  if (error instanceof ClaraStreamError && error.status !== null) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return true;
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// The backend names its events, but older deployments sent bare data lines — fall back to
+// recognising the payload by its fields.
+function toStreamEvent(message: SseMessage): ClaraStreamEvent {
+  let data: unknown;
+  try {
+    data = JSON.parse(message.data);
+  } catch {
+    console.error('Error parsing SSE data:', message.data);
+    return { type: 'unknown', event: message.event, data: message.data };
+  }
+  if (!data || typeof data !== 'object') return { type: 'unknown', event: message.event, data };
+
+  const fields = data as Record<string, unknown>;
+  const type =
+    message.event !== 'message' ? message.event
+      : 'response' in fields ? 'response'
+      : 'chunk' in fields ? 'chunk'
+      : 'simulation_context' in fields ? 'simulation_context'
+      : 'conversation_emotion' in fields ? 'context_ready'
+      : 'unknown';
+
+  switch (type) {
+    case 'context_ready':
+      return { type, data: fields as ClaraContextReadyData };
+    case 'chunk':
+      return typeof fields.chunk === 'string'
+        ? { type, data: fields as ClaraChunkData }
+        : { type: 'unknown', event: message.event, data };
+    case 'response':
+      return typeof fields.response === 'string'
+        ? { type, data: fields as ClaraResponseData }
+        : { type: 'unknown', event: message.event, data };
+    case 'simulation_context':
+      // Named event whose payload is either the context itself or wraps it
+      return {
+        type,
+        data: (fields.simulation_context as ClaraSimulationContext | undefined) ?? (fields as ClaraSimulationContext),
+      };
+    default:
+      return { type: 'unknown', event: message.event, data };
+  }
+}
+
+class ClaraStreamClient {
+  private baseUrl = '/api/backend';
+
+  /**
+   * Open a conversation stream and yield its events until [DONE] or the stream ends.
+   * Returns whether it saw [DONE]: a body that just closes may have been cut off.
+   * Aborting the signal cancels the request and the read, rejecting with an AbortError.
+   */
+  async *stream(request: ClaraStreamRequest, options: ClaraStreamOptions = {}): AsyncGenerator<ClaraStreamEvent, boolean> {
+    const { token, signal } = options;
+    const response = await fetch(`${this.baseUrl}/clara/conversation/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(request.correlation_id ? { 'X-Correlation-ID': request.correlation_id } : {}),
+      },
+      body: JSON.stringify(request),
+      ...(signal ? { signal } : {}),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401 || response.status === 403) {
+        throw new ClaraStreamError('Authentication failed. Please log in again.', response.status);
+      }
+      throw new ClaraStreamError(`API error: ${response.status}`, response.status);
+    }
+    if (!response.body) return false;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const parser = new SseParser();
+    // fetch only honours the signal for bodies it produced itself; cancel the read directly too
+    const cancelRead = () => void reader.cancel().catch(() => {});
+    signal?.addEventListener('abort', cancelRead);
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        signal?.throwIfAborted();
+        const messages = done
+          ? parser.feed(decoder.decode()).concat(parser.end())
+          : parser.feed(decoder.decode(value, { stream: true }));
+
+        for (const message of messages) {
+          if (message.data === DONE) return true;
+          signal?.throwIfAborted(); // one read can hold several events; none after an abort
+          yield toStreamEvent(message);
+        }
+        if (done) return false;
+      }
+    } finally {
+      // Early exit (a break in the consumer, [DONE], an abort) — don't leave the body open
+      signal?.removeEventListener('abort', cancelRead);
+      cancelRead();
+    }
+  }
+
+  /**
+   * stream() that survives dropped connections. Failures before the first chunk retry the
+   * request with backoff; a break after partial output asks the backend to resume the same
+   * turn (same correlation id) from the characters already received, so nothing is repeated.
+   */
+  async *streamWithRetry(
+    request: ClaraStreamRequest,
+    options: ClaraStreamRetryOptions = {},
+  ): AsyncGenerator<ClaraStreamEvent> {
+    const { streamRetry } = config.api;
+    const {
+      maxRetries = streamRetry.maxRetries,
+      baseDelayMs = streamRetry.baseDelayMs,
+      maxDelayMs = streamRetry.maxDelayMs,
+      onReconnecting,
+      onReconnected,
+      ...streamOptions
+    } = options;
+
+    let correlationId = request.correlation_id ?? newCorrelationId();
+    let offset = 0;
+    let finished = false; // the final response is in — a break after it loses nothing
+
+    for (let attempt = 0; ; attempt++) {
+      let reconnecting = attempt > 0;
+      try {
+        const resumed = offset > 0 ? { resume_offset: offset } : {};
+        const events = this.stream({ ...request, correlation_id: correlationId, ...resumed }, streamOptions);
+        let next: IteratorResult<ClaraStreamEvent, boolean>;
+        // By hand rather than for await, for the return value; the finally still closes the
+        // stream if our own consumer stops early
+        try {
+          while (!(next = await events.next()).done) {
+            const event = next.value;
+            if (reconnecting) {
+              reconnecting = false;
+              onReconnected?.();
+            }
+            if (event.type !== 'unknown' && typeof event.data.correlation_id === 'string') {
+              correlationId = event.data.correlation_id; // the backend's id wins over ours
+            }
+            if (event.type === 'chunk') offset += event.data.chunk.length;
+            if (event.type === 'response') finished = true;
+            yield event;
+          }
+        } finally {
+          await events.return(false);
+        }
+        // [DONE] without a response is a complete reply too — the chunks are all there is.
+        // A body that closes with neither is a dropped connection.
+        if (finished || next.value) return;
+        throw new ClaraStreamError('Stream ended before the final response');
+      } catch (error) {
+        if (finished) return;
+        if (streamOptions.signal?.aborted || attempt >= maxRetries || !isRetryable(error)) throw error;
+        onReconnecting?.(attempt + 1, offset > 0, error);
+        await wait(Math.min(baseDelayMs * 2 ** attempt, maxDelayMs), streamOptions.signal);
+      }
+    }
+  }
+
+  /**
+   * Callback flavour of stream(): dispatches each event to its handler and resolves when the
+   * stream is over.
+   */
+  async run(request: ClaraStreamRequest, handlers: ClaraStreamHandlers, options: ClaraStreamOptions = {}): Promise<void> {
+    for await (const event of this.stream(request, options)) {
+      handlers.onEvent?.(event);
+      switch (event.type) {
+        case 'context_ready':
+          handlers.onContextReady?.(event.data);
+          break;
+        case 'chunk':
+          handlers.onChunk?.(event.data);
+          break;
+        case 'response':
+          handlers.onResponse?.(event.data);
+          break;
+        case 'simulation_context':
+          handlers.onSimulationContext?.(event.data);
+          break;
+      }
+    }
+  }
+}
+
+export { ClaraStreamClient };
+export const claraStreamClient = new ClaraStreamClient();
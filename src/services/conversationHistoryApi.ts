@@ -0,0 +1,31 @@
+import { ConversationLogRow } from '@/types/conversation';
+
+const API_BASE = '/api/backend';
+
+interface ConversationLogFilters {
+  limit?: number;
+  conversationId?: string;
+}
+
+export const conversationHistoryApi = {
+  // The signed-in user's logged turns, newest first. In dev there is no token — the backend
+  // treats a header-less request as the dev user.
+  async getLog(filters: ConversationLogFilters = {}, token: string | null = null): Promise<ConversationLogRow[]> {
+    const params = new URLSearchParams();
+
+    if (filters.limit) params.append('limit', filters.limit.toString());
+    if (filters.conversationId) params.append('conversation_id', filters.conversationId);
+
+    const response = await fetch(`${API_BASE}/clara/conversation/log?${params}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch conversation history: ${response.statusText || response.status}`);
+    }
+
+    const rows: ConversationLogRow[] = await response.json();
+    // Don't rely on the backend honouring conversation_id — hand back only the one asked for.
+    return filters.conversationId ? rows.filter((row) => row.conversation_id === filters.conversationId) : rows;
+  },
+};
@@ -0,0 +1,184 @@
+import { useClaraStore, type ClaraMessage } from './claraStore';
+import { onConversationTransition, type ConversationTransition } from './conversationMachine';
+
+// In-memory stand-in for IndexedDB, which jsdom doesn't have
+const mockSaved = new Map<string, string>();
+jest.mock('@/lib/idbStorage', () => ({
+  idbStorage: {
+    getItem: async (name: string) => mockSaved.get(name) ?? null,
+    setItem: async (name: string, value: string) => void mockSaved.set(name, value),
+    removeItem: async (name: string) => void mockSaved.delete(name),
+  },
+}));
+
+const KEY = 'clara-conversation';
+
+const message = (overrides: Partial<ClaraMessage> = {}): ClaraMessage => ({
+  id: 'user-1',
+  role: 'user',
+  content: 'Hello Clara',
+  timestamp: new Date('2026-01-02T03:04:05Z'),
+  ...overrides,
+});
+
+const save = (state: object, version: number) => mockSaved.set(KEY, JSON.stringify({ state, version }));
+
+describe('claraStore persistence', () => {
+  beforeEach(() => {
+    mockSaved.clear();
+    useClaraStore.getState().reset();
+  });
+
+  it('restores the saved session and messages, with Dates for timestamps', async () => {
+    save({
+      messages: [message()],
+      session: { userName: 'Sam', selectedPersonality: 'sassy', sessionId: 42, sessionDuration: 0, sessionStartTime: 1 },
+    }, 1);
+
+    await useClaraStore.persist.rehydrate();
+
+    const { messages, session } = useClaraStore.getState();
+    expect(messages).toHaveLength(1);
+    expect(messages[0]?.timestamp).toBeInstanceOf(Date);
+    expect(messages[0]?.timestamp.toISOString()).toBe('2026-01-02T03:04:05.000Z');
+    expect(session).toEqual(expect.objectContaining({ sessionId: 42, selectedPersonality: 'sassy' }));
+  });
+
+  it('starts clean when the saved version has no migration path', async () => {
+    save({ messages: [message()], session: { sessionId: 42 } }, 0);
+    const { sessionId } = useClaraStore.getState().session;
+
+    await useClaraStore.persist.rehydrate();
+
+    expect(useClaraStore.getState().messages).toEqual([]);
+    expect(useClaraStore.getState().session.sessionId).toBe(sessionId);
+  });
+
+  it('saves messages but not the live conversation flags', async () => {
+    useClaraStore.getState().addMessage(message());
+    useClaraStore.getState().setProcessing(true);
+    await Promise.resolve();
+
+    const { state, version } = JSON.parse(mockSaved.get(KEY) ?? '{}');
+    expect(version).toBe(1);
+    expect(Object.keys(state).sort()).toEqual(['messages', 'session']);
+    expect(state.messages[0].content).toBe('Hello Clara');
+  });
+
+  it("doesn't rewrite the conversation for changes that aren't saved", async () => {
+    useClaraStore.getState().addMessage(message());
+    await Promise.resolve();
+    mockSaved.clear();
+
+    useClaraStore.getState().setTranscript('hel', true);
+    useClaraStore.getState().setProcessing(true);
+    await Promise.resolve();
+    expect(mockSaved.has(KEY)).toBe(false);
+
+    useClaraStore.getState().addMessage(message({ id: 'user-2' }));
+    await Promise.resolve();
+    expect(JSON.parse(mockSaved.get(KEY) ?? '{}').state.messages).toHaveLength(2);
+  });
+
+  it('startNewSession clears the history under a new session id, keeping who is talking', () => {
+    const store = useClaraStore.getState();
+    store.setUserName('Sam');
+    store.setConversationId('conv-1');
+    store.addMessage(message());
+    const { sessionId } = useClaraStore.getState().session;
+
+    store.startNewSession();
+
+    const { messages, session } = useClaraStore.getState();
+    expect(messages).toEqual([]);
+    expect(session.sessionId).not.toBe(sessionId);
+    expect(session.userName).toBe('Sam');
+    expect(session.conversationId).toBeUndefined();
+  });
+
+  it('restoreConversation swaps in the logged history under that conversation id', () => {
+    useClaraStore.getState().addMessage(message({ id: 'user-old', content: 'Earlier chat' }));
+
+    useClaraStore.getState().restoreConversation('conv-9', [message({ id: 'log-1' })]);
+
+    const { messages, session } = useClaraStore.getState();
+    expect(messages.map((m) => m.id)).toEqual(['log-1']);
+    expect(session.conversationId).toBe('conv-9');
+  });
+});
+
+describe('claraStore conversation phase', () => {
+  let transitions: ConversationTransition[];
+  let unsubscribe: () => void;
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    useClaraStore.getState().reset();
+    transitions = [];
+    unsubscribe = onConversationTransition((transition) => transitions.push(transition));
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    warn.mockRestore();
+  });
+
+  const flags = () => {
+    const { phase, isListening, isAISpeaking, isProcessing, isPaused, isReconnecting } = useClaraStore.getState();
+    return { phase, isListening, isAISpeaking, isProcessing, isPaused, isReconnecting };
+  };
+
+  it('moves through a turn, keeping the flags in step with the phase', () => {
+    const store = useClaraStore.getState();
+    store.setListening(true);
+    store.setProcessing(true);
+    store.setReconnecting(true);
+    expect(flags()).toEqual({
+      phase: 'reconnecting', isListening: false, isAISpeaking: false, isProcessing: true, isPaused: false, isReconnecting: true,
+    });
+
+    store.setReconnecting(false); // back to waiting on the reply
+    expect(useClaraStore.getState().phase).toBe('processing');
+    store.setAISpeaking(true);
+    store.setProcessing(false); // the stream ending while she speaks changes nothing
+    expect(useClaraStore.getState().phase).toBe('speaking');
+    store.setAISpeaking(false);
+
+    expect(transitions.map(({ from, to }) => `${from}→${to}`)).toEqual([
+      'idle→listening', 'listening→processing', 'processing→reconnecting',
+      'reconnecting→processing', 'processing→speaking', 'speaking→idle',
+    ]);
+  });
+
+  it('refuses illegal transitions, leaving the phase alone and reporting the attempt', () => {
+    const store = useClaraStore.getState();
+
+    expect(store.transitionTo('reconnecting', 'test')).toBe(false);
+    expect(useClaraStore.getState().phase).toBe('idle');
+    expect(transitions).toEqual([expect.objectContaining({ from: 'idle', to: 'reconnecting', cause: 'test', accepted: false })]);
+    expect(warn).toHaveBeenCalled();
+
+    store.setProcessing(true);
+    store.setPaused(true); // can't pause the mic mid-request
+    expect(useClaraStore.getState().phase).toBe('processing');
+  });
+
+  it('holds the error message only while in the error phase', () => {
+    const store = useClaraStore.getState();
+    store.setListening(true);
+    store.setError('Microphone blocked');
+    expect(useClaraStore.getState()).toEqual(expect.objectContaining({ phase: 'error', error: 'Microphone blocked', isListening: false }));
+
+    store.setListening(true);
+    expect(useClaraStore.getState()).toEqual(expect.objectContaining({ phase: 'listening', error: null }));
+  });
+
+  it('barge-in hands the floor straight from speaking to listening', () => {
+    const store = useClaraStore.getState();
+    store.setAISpeaking(true);
+    store.interruptAISpeaking(null, '');
+
+    expect(transitions.map(({ from, to }) => `${from}→${to}`)).toEqual(['idle→speaking', 'speaking→listening']);
+  });
+});
@@ -1,9 +1,20 @@
 'use client';
 
+import { useSyncExternalStore } from 'react';
 import { create } from 'zustand';
-import { devtools } from 'zustand/middleware';
+import { createJSONStorage, devtools, persist, type PersistStorage } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import { useShallow } from 'zustand/react/shallow';
+import { config } from '@/lib/config';
+import { idbStorage } from '@/lib/idbStorage';
+import type { SentimentAnalysisResult } from '@/lib/sentiment';
+import {
+  type ConversationPhase,
+  canTransition,
+  emitConversationTransition,
+  onConversationTransition,
+  phaseFlags,
+} from './conversationMachine';
 
 // ===== TYPES =====
 
@@ -14,6 +25,14 @@ export interface ClaraMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  source?: 'voice' | 'text'; // how a user turn was entered
+  emotion?: string; // backend conversation_emotion for an assistant turn
+  // Set when the user barged in while this reply was playing. heardContent is the part that
+  // was actually spoken before the cut — content stays the full reply.
+  interrupted?: boolean;
+  heardContent?: string;
+  superseded?: boolean; // a newer turn started before this reply finished streaming — content is partial
+  sentiment?: SentimentAnalysisResult; // filled in once the sentiment worker has read the message
 }
 
 export interface ClaraSession {
@@ -28,11 +47,13 @@ export interface ClaraSession {
 // ===== STORE INTERFACE =====
 
 export interface ClaraStore {
-  // Conversation state
+  // Conversation state. phase is the truth; the flags mirror it for existing readers.
+  phase: ConversationPhase;
   isListening: boolean;
   isAISpeaking: boolean;
   isProcessing: boolean;
   isPaused: boolean;
+  isReconnecting: boolean; // the reply's stream dropped and is being retried or resumed
   transcript: string;
   interimTranscript: string;
   error: string | null;
@@ -42,16 +63,20 @@ export interface ClaraStore {
   session: ClaraSession;
   
   // Simple actions
+  transitionTo: (phase: ConversationPhase, cause?: string) => boolean;
   setListening: (listening: boolean) => void;
   setAISpeaking: (speaking: boolean) => void;
   setProcessing: (processing: boolean) => void;
   setPaused: (paused: boolean) => void;
+  setReconnecting: (reconnecting: boolean) => void;
   setTranscript: (transcript: string, isInterim?: boolean) => void;
   clearTranscript: () => void;
   setError: (error: string | null) => void;
   
   // Message actions
   addMessage: (message: ClaraMessage) => void;
+  markMessageInterrupted: (id: string, heardContent: string) => void;
+  setMessageSentiment: (id: string, sentiment: SentimentAnalysisResult) => void;
   clearMessages: () => void;
   
   // Session actions
@@ -59,6 +84,8 @@ export interface ClaraStore {
   setPersonality: (personality: ClaraPersonality) => void;
   setConversationId: (id: string) => void;
   updateSessionDuration: () => void;
+  startNewSession: () => void;
+  restoreConversation: (conversationId: string, messages: ClaraMessage[]) => void;
   
   // High-level actions
   startListening: () => void;
@@ -67,209 +94,368 @@ export interface ClaraStore {
   resumeListening: () => void;
   startAISpeaking: () => void;
   stopAISpeaking: () => void;
+  interruptAISpeaking: (messageId: string | null, heardContent: string) => void;
   reset: () => void;
 }
 
+// ===== PERSISTENCE =====
+
+// Messages and the session survive a reload; the live conversation flags never do.
+type PersistedClaraState = Pick<ClaraStore, 'messages' | 'session'>;
+
+// Bump when a change to ClaraMessage or the persisted shape would misread what's already saved —
+// a field renamed, retyped or made required — adding the step that upgrades the previous version.
+// A new optional field needs no bump: old saves just don't have it. Steps run in order from
+// whatever version was stored.
+const PERSIST_VERSION = 1;
+const migrations: Record<number, (state: PersistedClaraState) => PersistedClaraState> = {};
+
+const migrate = (persisted: unknown, version: number): PersistedClaraState | undefined => {
+  let state = persisted as PersistedClaraState;
+  for (let from = version; from < PERSIST_VERSION; from++) {
+    const step = migrations[from];
+    // No way forward from here — start clean rather than load a shape we can't read.
+    if (!step) return undefined;
+    state = step(state);
+  }
+  return state;
+};
+
+// JSON turns timestamps into strings; the rest of the app expects Dates.
+// Every set() asks persist to save, but only a change to what's saved is worth rewriting up to
+// maxPersistedMessages to IndexedDB — not an interim transcript or a phase flag. Immer keeps
+// untouched messages and the session by reference, so a shallow compare tells.
+const unchangedSince = (last: PersistedClaraState, next: PersistedClaraState) =>
+  last.session === next.session &&
+  last.messages.length === next.messages.length &&
+  last.messages.every((message, i) => message === next.messages[i]);
+
+const skipUnchangedWrites = (
+  storage: PersistStorage<PersistedClaraState> | undefined
+): PersistStorage<PersistedClaraState> | undefined => {
+  if (!storage) return storage;
+  let lastWritten: PersistedClaraState | null = null;
+  return {
+    ...storage,
+    setItem: (name, value) => {
+      if (lastWritten && unchangedSince(lastWritten, value.state)) return;
+      lastWritten = value.state;
+      return storage.setItem(name, value);
+    },
+    removeItem: (name) => {
+      lastWritten = null;
+      return storage.removeItem(name);
+    },
+  };
+};
+
+const reviveMessages = (messages: ClaraMessage[]): ClaraMessage[] =>
+  messages.map((message) => ({ ...message, timestamp: new Date(message.timestamp) }));
+
+const newSessionId = () => Math.floor(Math.random() * 1000000); // Generate unique session ID
+
 // ===== STORE IMPLEMENTATION =====
 
 export const useClaraStore = create<ClaraStore>()(
   devtools(
-    immer((set, get) => ({
-      // Initial state
-      isListening: false,
-      isAISpeaking: false,
-      isProcessing: false,
-      isPaused: false,
-      transcript: '',
-      interimTranscript: '',
-      error: null,
-      
-      messages: [],
-      
-      session: {
-        userName: '',
-        selectedPersonality: 'friendly',
-        sessionId: Math.floor(Math.random() * 1000000), // Generate unique session ID
-        sessionDuration: 0,
-        sessionStartTime: Date.now(),
-      },
-      
-      // Simple state setters
-      setListening: (listening: boolean) => {
-        set((state) => {
-          state.isListening = listening;
-          if (listening) {
-            state.isPaused = false;
-            state.isAISpeaking = false;
-          }
-        });
-      },
-      
-      setAISpeaking: (speaking: boolean) => {
-        set((state) => {
-          state.isAISpeaking = speaking;
-          if (speaking) {
-            state.isListening = false;
-            state.isPaused = false;
-            state.isProcessing = false;
-          }
-        });
-      },
-      
-      setProcessing: (processing: boolean) => {
-        set((state) => {
-          state.isProcessing = processing;
-          if (processing) {
-            state.isListening = false;
-            state.isPaused = false;
-          }
-        });
-      },
-      
-      setPaused: (paused: boolean) => {
-        set((state) => {
-          state.isPaused = paused;
-          if (paused) {
-            state.isListening = false;
+    persist(
+      immer((set, get) => ({
+        // Initial state
+        phase: 'idle',
+        ...phaseFlags('idle'),
+        transcript: '',
+        interimTranscript: '',
+        error: null,
+        
+        messages: [],
+        
+        session: {
+          userName: '',
+          selectedPersonality: 'friendly',
+          sessionId: newSessionId(),
+          sessionDuration: 0,
+          sessionStartTime: Date.now(),
+        },
+        
+        // Every phase change goes through here. Refused transitions leave the phase alone and
+        // return false; either way listeners hear about the attempt.
+        transitionTo: (to: ConversationPhase, cause: string = to) => {
+          const from = get().phase;
+          if (from === to) return true;
+
+          const accepted = canTransition(from, to);
+          emitConversationTransition({ from, to, cause, accepted, at: Date.now() });
+          if (!accepted) {
+            console.warn(`Conversation: refused ${from} → ${to} (${cause})`);
+            return false;
           }
-        });
-      },
-      
-      setTranscript: (transcript: string, isInterim = false) => {
-        set((state) => {
-          if (isInterim) {
-            state.interimTranscript = transcript;
-          } else {
-            state.transcript = transcript;
+
+          set((state) => {
+            state.phase = to;
+            Object.assign(state, phaseFlags(to));
+            if (from === 'error') state.error = null;
+          });
+          return true;
+        },
+        
+        // The setters below are the phase-level vocabulary the components already speak.
+        // Turning a flag off only means something in the phase it names — e.g. a late
+        // setProcessing(false) once Clara is already speaking changes nothing.
+        setListening: (listening: boolean) => {
+          const { phase, transitionTo } = get();
+          if (listening) transitionTo('listening', 'setListening');
+          else if (phase === 'listening') transitionTo('idle', 'setListening');
+        },
+        
+        setAISpeaking: (speaking: boolean) => {
+          const { phase, transitionTo } = get();
+          if (speaking) transitionTo('speaking', 'setAISpeaking');
+          else if (phase === 'speaking') transitionTo('idle', 'setAISpeaking');
+        },
+        
+        setProcessing: (processing: boolean) => {
+          const { phase, transitionTo } = get();
+          if (processing) transitionTo('processing', 'setProcessing');
+          else if (phase === 'processing' || phase === 'reconnecting') transitionTo('idle', 'setProcessing');
+        },
+        
+        setPaused: (paused: boolean) => {
+          const { phase, transitionTo } = get();
+          if (paused) transitionTo('paused', 'setPaused');
+          else if (phase === 'paused') transitionTo('idle', 'setPaused');
+        },
+        
+        // Reconnected means back to waiting on the reply, not idle.
+        setReconnecting: (reconnecting: boolean) => {
+          const { phase, transitionTo } = get();
+          if (reconnecting) transitionTo('reconnecting', 'setReconnecting');
+          else if (phase === 'reconnecting') transitionTo('processing', 'setReconnecting');
+        },
+        
+        setTranscript: (transcript: string, isInterim = false) => {
+          set((state) => {
+            if (isInterim) {
+              state.interimTranscript = transcript;
+            } else {
+              state.transcript = transcript;
+              state.interimTranscript = '';
+            }
+          });
+        },
+        
+        clearTranscript: () => {
+          set((state) => {
+            state.transcript = '';
             state.interimTranscript = '';
-          }
-        });
-      },
-      
-      clearTranscript: () => {
-        set((state) => {
-          state.transcript = '';
-          state.interimTranscript = '';
-        });
-      },
-      
-      setError: (error: string | null) => {
-        set((state) => {
-          state.error = error;
+          });
+        },
+        
+        setError: (error: string | null) => {
+          const { phase, transitionTo } = get();
           if (error) {
-            state.isListening = false;
-            state.isAISpeaking = false;
-            state.isProcessing = false;
+            if (!transitionTo('error', 'setError')) return;
+            set((state) => {
+              state.error = error;
+            });
+          } else if (phase === 'error') {
+            transitionTo('idle', 'setError');
           }
-        });
-      },
-      
-      // Message actions
-      addMessage: (message: ClaraMessage) => {
-        set((state) => {
-          state.messages.push(message);
-        });
-      },
-      
-      clearMessages: () => {
-        set((state) => {
-          state.messages = [];
-        });
-      },
-      
-      // Session actions
-      setUserName: (name: string) => {
-        set((state) => {
-          state.session.userName = name;
-        });
-      },
-      
-      setPersonality: (personality: ClaraPersonality) => {
-        set((state) => {
-          state.session.selectedPersonality = personality;
-        });
-      },
-      
-      setConversationId: (id: string) => {
-        set((state) => {
-          state.session.conversationId = id;
-        });
-      },
-      
-      updateSessionDuration: () => {
-        set((state) => {
-          if (state.session.sessionStartTime > 0) {
-            state.session.sessionDuration = Math.floor(
-              (Date.now() - state.session.sessionStartTime) / 1000
-            );
-          }
-        });
-      },
-      
-      // High-level actions
-      startListening: () => {
-        const { setListening, clearTranscript, setError } = get();
-        setError(null);
-        clearTranscript();
-        setListening(true);
-      },
-      
-      stopListening: () => {
-        const { setListening } = get();
-        setListening(false);
-      },
-      
-      pauseListening: () => {
-        const { setPaused } = get();
-        setPaused(true);
-      },
-      
-      resumeListening: () => {
-        const { setPaused, setListening } = get();
-        setPaused(false);
-        setListening(true);
-      },
-      
-      startAISpeaking: () => {
-        const { setAISpeaking } = get();
-        setAISpeaking(true);
-      },
-      
-      stopAISpeaking: () => {
-        const { setAISpeaking } = get();
-        setAISpeaking(false);
-      },
-      
-      reset: () => {
-        set((state) => {
-          state.isListening = false;
-          state.isAISpeaking = false;
-          state.isProcessing = false;
-          state.isPaused = false;
-          state.transcript = '';
-          state.interimTranscript = '';
-          state.error = null;
-          
-          // Keep session data but clear messages
-          state.messages = [];
-        });
-      },
-    })),
+        },
+        
+        // Message actions
+        addMessage: (message: ClaraMessage) => {
+          set((state) => {
+            state.messages.push(message);
+          });
+        },
+        
+        markMessageInterrupted: (id: string, heardContent: string) => {
+          set((state) => {
+            const message = state.messages.find((m) => m.id === id);
+            if (message) {
+              message.interrupted = true;
+              message.heardContent = heardContent;
+            }
+          });
+        },
+        
+        setMessageSentiment: (id: string, sentiment: SentimentAnalysisResult) => {
+          set((state) => {
+            const message = state.messages.find((m) => m.id === id);
+            if (message) message.sentiment = sentiment;
+          });
+        },
+        
+        clearMessages: () => {
+          set((state) => {
+            state.messages = [];
+          });
+        },
+        
+        // Session actions
+        setUserName: (name: string) => {
+          set((state) => {
+            state.session.userName = name;
+          });
+        },
+        
+        setPersonality: (personality: ClaraPersonality) => {
+          set((state) => {
+            state.session.selectedPersonality = personality;
+          });
+        },
+        
+        setConversationId: (id: string) => {
+          set((state) => {
+            state.session.conversationId = id;
+          });
+        },
+        
+        updateSessionDuration: () => {
+          set((state) => {
+            if (state.session.sessionStartTime > 0) {
+              state.session.sessionDuration = Math.floor(
+                (Date.now() - state.session.sessionStartTime) / 1000
+              );
+            }
+          });
+        },
+        
+        // A clean slate with a fresh backend session; who the user is and who Clara is stay put.
+        startNewSession: () => {
+          get().reset();
+          set((state) => {
+            delete state.session.conversationId;
+            state.session.sessionId = newSessionId();
+            state.session.sessionDuration = 0;
+            state.session.sessionStartTime = Date.now();
+          });
+        },
+        
+        // Pick a logged conversation back up: its history on screen, its id on every request so
+        // the backend carries on with the same context.
+        restoreConversation: (conversationId: string, messages: ClaraMessage[]) => {
+          get().startNewSession();
+          set((state) => {
+            state.messages = messages;
+            state.session.conversationId = conversationId;
+          });
+        },
+        
+        // High-level actions
+        startListening: () => {
+          const { setListening, clearTranscript, setError } = get();
+          setError(null);
+          clearTranscript();
+          setListening(true);
+        },
+        
+        stopListening: () => {
+          const { setListening } = get();
+          setListening(false);
+        },
+        
+        pauseListening: () => {
+          const { setPaused } = get();
+          setPaused(true);
+        },
+        
+        resumeListening: () => {
+          const { setPaused, setListening } = get();
+          setPaused(false);
+          setListening(true);
+        },
+        
+        startAISpeaking: () => {
+          const { setAISpeaking } = get();
+          setAISpeaking(true);
+        },
+        
+        stopAISpeaking: () => {
+          const { setAISpeaking } = get();
+          setAISpeaking(false);
+        },
+        
+        // Barge-in: Clara was cut off mid-reply and the floor goes straight to the user. Not
+        // stopAISpeaking + startListening — that passes through idle, which is what auto-restart
+        // and the heartbeat key off. messageId is null while the reply is still streaming in;
+        // the page marks the message itself once it lands.
+        interruptAISpeaking: (messageId: string | null, heardContent: string) => {
+          const { markMessageInterrupted, transitionTo } = get();
+          if (messageId) markMessageInterrupted(messageId, heardContent);
+          transitionTo('listening', 'interruptAISpeaking');
+          set((state) => {
+            state.transcript = '';
+            state.interimTranscript = '';
+          });
+        },
+        
+        // Back to idle from anywhere — the one move the transition table doesn't police.
+        reset: () => {
+          const from = get().phase;
+          if (from !== 'idle') emitConversationTransition({ from, to: 'idle', cause: 'reset', accepted: true, at: Date.now() });
+          set((state) => {
+            state.phase = 'idle';
+            Object.assign(state, phaseFlags('idle'));
+            state.transcript = '';
+            state.interimTranscript = '';
+            state.error = null;
+            
+            // Keep session data but clear messages
+            state.messages = [];
+          });
+        },
+      })),
+      {
+        name: 'clara-conversation',
+        version: PERSIST_VERSION,
+        storage: skipUnchangedWrites(createJSONStorage(() => idbStorage)),
+        partialize: (state): PersistedClaraState => ({
+          messages: state.messages.slice(-config.session.maxPersistedMessages),
+          session: state.session,
+        }),
+        migrate: (persisted, version) => migrate(persisted, version) as ClaraStore,
+        merge: (persisted, current) => {
+          const restored = persisted as Partial<PersistedClaraState> | undefined;
+          return {
+            ...current,
+            ...(restored?.session ? { session: { ...current.session, ...restored.session } } : {}),
+            ...(restored?.messages ? { messages: reviveMessages(restored.messages) } : {}),
+          };
+        },
+      }
+    ),
     {
       name: 'clara-store',
     }
   )
 );
 
+if (config.env.isDevelopment) {
+  onConversationTransition(({ from, to, cause, accepted }) => {
+    if (accepted) console.debug(`🔀 ${from} → ${to} (${cause})`);
+  });
+}
+
+// False until the persisted conversation has been read back — IndexedDB is async, so the
+// first render always sees the empty initial state.
+export const useClaraHasHydrated = () => useSyncExternalStore(
+  (onChange) => useClaraStore.persist.onFinishHydration(onChange),
+  () => useClaraStore.persist.hasHydrated(),
+  () => false,
+);
+
 // ===== SELECTORS =====
 
 // Object selectors using useShallow to prevent infinite loops
 export const useClaraConversationState = () => useClaraStore(
   useShallow((state) => ({
+    phase: state.phase,
     isListening: state.isListening,
     isAISpeaking: state.isAISpeaking,
     isProcessing: state.isProcessing,
     isPaused: state.isPaused,
+    isReconnecting: state.isReconnecting,
     error: state.error,
   }))
 );
@@ -286,6 +472,6 @@ export const useClaraSessionState = () => useClaraStore((state) => state.session
 export const useClaraMessages = () => useClaraStore((state) => state.messages);
 
 // Status helpers
-export const useClaraCanStartConversation = () => useClaraStore((state) => 
-  !state.isListening && !state.isAISpeaking && !state.isProcessing
+export const useClaraCanStartConversation = () => useClaraStore((state) =>
+  state.phase === 'idle' || state.phase === 'paused' || state.phase === 'error'
 );
\ No newline at end of file
@@ -0,0 +1,58 @@
+// The conversation is in exactly one phase at a time. claraStore holds the current phase and
+// moves it only through transitionTo, which checks this table.
+
+export type ConversationPhase =
+  | 'idle'
+  | 'listening'
+  | 'processing'
+  | 'speaking'
+  | 'paused'
+  | 'error'
+  | 'reconnecting'; // processing, with the reply's stream being retried or resumed
+
+export const CONVERSATION_TRANSITIONS: Record<ConversationPhase, readonly ConversationPhase[]> = {
+  idle: ['listening', 'processing', 'speaking', 'paused', 'error'],
+  listening: ['idle', 'processing', 'speaking', 'paused', 'error'],
+  // listening: barge-in can land before the first sentence is spoken
+  processing: ['idle', 'listening', 'speaking', 'reconnecting', 'error'],
+  speaking: ['idle', 'listening', 'processing', 'error'],
+  paused: ['idle', 'listening', 'processing', 'error'],
+  error: ['idle', 'listening', 'processing'],
+  reconnecting: ['idle', 'listening', 'processing', 'speaking', 'error'],
+};
+
+export const canTransition = (from: ConversationPhase, to: ConversationPhase) =>
+  from === to || CONVERSATION_TRANSITIONS[from].includes(to);
+
+export interface ConversationTransition {
+  from: ConversationPhase;
+  to: ConversationPhase;
+  cause: string; // the action that asked for it
+  accepted: boolean; // false when the table refused it and the phase stayed put
+  at: number;
+}
+
+type TransitionListener = (transition: ConversationTransition) => void;
+
+const listeners = new Set<TransitionListener>();
+
+// Every attempted transition, accepted or not — for logging and debugging tools.
+export const onConversationTransition = (listener: TransitionListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const emitConversationTransition = (transition: ConversationTransition) => {
+  listeners.forEach((listener) => listener(transition));
+};
+
+// The boolean view older code reads. Derived only — never set on their own.
+export const phaseFlags = (phase: ConversationPhase) => ({
+  isListening: phase === 'listening',
+  isAISpeaking: phase === 'speaking',
+  isProcessing: phase === 'processing' || phase === 'reconnecting',
+  isPaused: phase === 'paused',
+  isReconnecting: phase === 'reconnecting',
+});
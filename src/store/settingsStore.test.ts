@@ -0,0 +1,40 @@
+import { ANONYMOUS_USER, DEFAULT_SETTINGS, selectUserSettings, useSettingsStore } from './settingsStore';
+
+const KEY = 'clara-settings';
+
+const settings = () => selectUserSettings(useSettingsStore.getState());
+
+describe('settingsStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useSettingsStore.setState({ profiles: {}, activeUserId: ANONYMOUS_USER });
+  });
+
+  it('falls back to the defaults for a user who never changed anything', () => {
+    useSettingsStore.getState().setActiveUser('auth0|new');
+    expect(settings()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('keeps each signed-in user their own settings', () => {
+    const { setActiveUser, setInteractionMode } = useSettingsStore.getState();
+
+    setActiveUser('auth0|ana');
+    setInteractionMode('hold-to-talk');
+    setActiveUser('auth0|ben');
+    expect(settings().interactionMode).toBe('hands-free');
+    setInteractionMode('tap-to-toggle');
+
+    setActiveUser('auth0|ana');
+    expect(settings().interactionMode).toBe('hold-to-talk');
+    setActiveUser(null);
+    expect(settings().interactionMode).toBe('hands-free');
+  });
+
+  it('saves the profiles but not who was signed in', () => {
+    useSettingsStore.getState().setActiveUser('auth0|ana');
+    useSettingsStore.getState().setInteractionMode('hold-to-talk');
+
+    const saved = JSON.parse(localStorage.getItem(KEY) ?? '{}');
+    expect(saved.state).toEqual({ profiles: { 'auth0|ana': { interactionMode: 'hold-to-talk' } } });
+  });
+});
@@ -0,0 +1,147 @@
+'use client';
+
+import { create } from 'zustand';
+import { createJSONStorage, devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { useShallow } from 'zustand/react/shallow';
+import type { CaptionSize } from '@/lib/captions';
+import { resolveLanguage, type LanguagePreference } from '@/lib/language';
+import type { MoodSource } from '@/lib/mood-arbiter';
+import type { TtsVoiceChoice, TtsVoiceSettings } from '@/lib/tts';
+
+// ===== TYPES =====
+
+// How the mic is driven:
+//   hands-free    — the turn ends when the user stops talking, and the mic re-arms after Clara
+//   tap-to-toggle — tap to talk, tap again to send; nothing re-arms on its own
+//   hold-to-talk  — listening only while the orb or spacebar is held; letting go sends
+export type InteractionMode = 'hands-free' | 'tap-to-toggle' | 'hold-to-talk';
+
+export interface UserSettings {
+  interactionMode: InteractionMode;
+  language: LanguagePreference;
+  // Clara's voice: null lets the providers choose. Pitch only reaches browser voices.
+  voice: TtsVoiceChoice | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+  // The input to listen on; null follows the system default
+  micDeviceId: string | null;
+  // Walked through mic setup (or waved it off) — don't open it unasked again
+  micOnboarded: boolean;
+  // Everything the app plays — Clara, the heartbeat, UI sounds — on top of their own levels
+  masterVolume: number;
+  // On-screen captions of what Clara is saying, word by word
+  captions: boolean;
+  captionSize: CaptionSize;
+  // What sets the backdrop and heartbeat mood: Clara's reading, the user's words, or both
+  moodSource: MoodSource;
+}
+
+interface SettingsState {
+  // Keyed by auth subject, so people sharing a browser keep their own settings. Only what each
+  // user changed is stored: the rest follows DEFAULT_SETTINGS, even as those change.
+  profiles: Record<string, Partial<UserSettings>>;
+  activeUserId: string;
+}
+
+interface SettingsActions {
+  setActiveUser: (userId: string | null | undefined) => void;
+  updateSettings: (changes: Partial<UserSettings>) => void;
+  setInteractionMode: (mode: InteractionMode) => void;
+  setLanguage: (language: LanguagePreference) => void;
+  setVoice: (voice: TtsVoiceChoice | null) => void;
+}
+
+export type SettingsStore = SettingsState & SettingsActions;
+
+export const ANONYMOUS_USER = 'anonymous';
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  interactionMode: 'hands-free',
+  language: 'auto',
+  voice: null,
+  rate: 1.0,
+  pitch: 1.0,
+  volume: 1.0,
+  masterVolume: 1.0,
+  micDeviceId: null,
+  micOnboarded: false,
+  captions: false,
+  captionSize: 'medium',
+  moodSource: 'blended',
+};
+
+// ===== STORE IMPLEMENTATION =====
+
+export const useSettingsStore = create<SettingsStore>()(
+  devtools(
+    persist(
+      immer((set, get) => ({
+        profiles: {},
+        activeUserId: ANONYMOUS_USER,
+
+        setActiveUser: (userId) => set((state) => {
+          state.activeUserId = userId || ANONYMOUS_USER;
+        }),
+
+        updateSettings: (changes) => set((state) => {
+          state.profiles[state.activeUserId] = { ...state.profiles[state.activeUserId], ...changes };
+        }),
+
+        setInteractionMode: (interactionMode) => get().updateSettings({ interactionMode }),
+
+        setLanguage: (language) => get().updateSettings({ language }),
+
+        setVoice: (voice) => get().updateSettings({ voice }),
+      })),
+      {
+        name: 'clara-settings',
+        version: 1,
+        // Small and read on first paint — localStorage, so it's there before the first render.
+        storage: createJSONStorage(() => localStorage),
+        // Who is signed in comes from auth on every load, not from last time.
+        partialize: (state) => ({ profiles: state.profiles }),
+      }
+    ),
+    {
+      name: 'settings-store',
+    }
+  )
+);
+
+// ===== SELECTOR HOOKS =====
+
+// The signed-in user's settings, with defaults for anything they never set — including fields
+// added after their profile was saved.
+export const selectUserSettings = (state: SettingsState): UserSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...state.profiles[state.activeUserId],
+});
+
+export const useUserSettings = () => useSettingsStore(useShallow(selectUserSettings));
+
+export const useMasterVolume = () => useSettingsStore((state) => selectUserSettings(state).masterVolume);
+
+export const useMoodSource = () => useSettingsStore((state) => selectUserSettings(state).moodSource);
+
+export const useInteractionMode = () => useSettingsStore((state) => selectUserSettings(state).interactionMode);
+
+// The language to converse in, with 'auto' resolved against the browser's locale
+export const useLanguage = () => useSettingsStore((state) => resolveLanguage(selectUserSettings(state).language));
+
+const selectVoiceSettings = (state: SettingsState): TtsVoiceSettings => {
+  const { voice, rate, pitch, volume } = selectUserSettings(state);
+  return { voice, rate, pitch, volume };
+};
+
+// What the speech services speak with
+export const useVoiceSettings = () => useSettingsStore(useShallow(selectVoiceSettings));
+
+const selectCaptionSettings = (state: SettingsState) => {
+  const { captions, captionSize, volume } = selectUserSettings(state);
+  // With Clara muted, captions are the only way to follow her — so they show regardless.
+  return { enabled: captions || volume === 0, size: captionSize };
+};
+
+export const useCaptionSettings = () => useSettingsStore(useShallow(selectCaptionSettings));
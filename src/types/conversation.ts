@@ -0,0 +1,17 @@
+// One logged turn from /clara/conversation/log
+export interface ConversationLogRow {
+  id: number;
+  conversation_id: string;
+  role: string;
+  content: string;
+  meta: Record<string, unknown> | null;
+  created_at: string | null;
+}
+
+export interface ConversationSummary {
+  conversationId: string;
+  turns: ConversationLogRow[]; // oldest first
+  startedAt: Date | null;
+  lastActivityAt: Date | null;
+  emotions: string[]; // distinct meta.conversation_emotion values, in order of appearance
+}
@@ -0,0 +1,65 @@
+import { type ConversationLogRow } from '@/types/conversation';
+import {
+  dateGroupLabel,
+  groupConversations,
+  logRowsToMessages,
+  searchConversations,
+} from './conversation-history';
+
+let nextId = 1;
+const row = (conversation_id: string, role: string, content: string, created_at: string, emotion?: string): ConversationLogRow => ({
+  id: nextId++,
+  conversation_id,
+  role,
+  content,
+  meta: emotion ? { conversation_emotion: emotion } : null,
+  created_at,
+});
+
+// Newest first, as the log endpoint returns them
+const rows = [
+  row('b', 'assistant', 'Glad to hear it!', '2026-03-02T10:01:00Z', 'happy'),
+  row('b', 'user', 'I got the job', '2026-03-02T10:00:00Z'),
+  row('a', 'assistant', 'That sounds hard.', '2026-03-01T09:01:00Z', 'sad'),
+  row('a', 'system', 'summary', '2026-03-01T09:00:30Z'),
+  row('a', 'user', 'Rough day at work', '2026-03-01T09:00:00Z'),
+];
+
+describe('conversation history', () => {
+  it('groups turns by conversation, most recently active first, turns oldest first', () => {
+    const conversations = groupConversations(rows);
+
+    expect(conversations.map((c) => c.conversationId)).toEqual(['b', 'a']);
+    expect(conversations[1]?.turns.map((t) => t.content)).toEqual(['Rough day at work', 'summary', 'That sounds hard.']);
+    expect(conversations[1]?.startedAt?.toISOString()).toBe('2026-03-01T09:00:00.000Z');
+    expect(conversations[0]?.emotions).toEqual(['happy']);
+  });
+
+  it('searches both sides of the conversation, ignoring case', () => {
+    const conversations = groupConversations(rows);
+
+    expect(searchConversations(conversations, 'JOB').map((c) => c.conversationId)).toEqual(['b']);
+    expect(searchConversations(conversations, 'sounds hard').map((c) => c.conversationId)).toEqual(['a']);
+    expect(searchConversations(conversations, '  ')).toHaveLength(2);
+  });
+
+  it('labels dates relative to today', () => {
+    const now = new Date(2026, 2, 10, 12);
+
+    expect(dateGroupLabel(new Date(2026, 2, 10, 1), now)).toBe('Today');
+    expect(dateGroupLabel(new Date(2026, 2, 9, 23), now)).toBe('Yesterday');
+    expect(dateGroupLabel(new Date(2026, 2, 5), now)).toBe('This week');
+    expect(dateGroupLabel(null, now)).toBe('Undated');
+  });
+
+  it('rebuilds store messages from a conversation, skipping non-chat roles', () => {
+    const [, conversation] = groupConversations(rows);
+    const messages = logRowsToMessages(conversation?.turns ?? []);
+
+    expect(messages.map((m) => [m.role, m.content, m.emotion])).toEqual([
+      ['user', 'Rough day at work', undefined],
+      ['assistant', 'That sounds hard.', 'sad'],
+    ]);
+    expect(messages[0]?.timestamp).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,69 @@
+import { type ClaraMessage } from '@/store/claraStore';
+import { type ConversationLogRow, type ConversationSummary } from '@/types/conversation';
+
+const toDate = (value: string | null) => (value ? new Date(value) : null);
+
+const emotionOf = (row: ConversationLogRow) =>
+  typeof row.meta?.conversation_emotion === 'string' ? row.meta.conversation_emotion : null;
+
+/**
+ * Group log rows (newest first, as the API returns them) into conversations, most recently
+ * active first, each with its turns in the order they were said.
+ */
+export function groupConversations(rows: ConversationLogRow[]): ConversationSummary[] {
+  const groups = new Map<string, ConversationLogRow[]>();
+  for (const row of rows) {
+    const list = groups.get(row.conversation_id) ?? [];
+    list.push(row);
+    groups.set(row.conversation_id, list);
+  }
+
+  return [...groups.entries()].map(([conversationId, newestFirst]) => {
+    const turns = [...newestFirst].reverse();
+    const emotions = [...new Set(turns.map(emotionOf).filter((e): e is string => !!e))];
+    return {
+      conversationId,
+      turns,
+      startedAt: toDate(turns[0]?.created_at ?? null),
+      lastActivityAt: toDate(turns[turns.length - 1]?.created_at ?? null),
+      emotions,
+    };
+  });
+}
+
+// Case-insensitive match on anything either side said.
+export function searchConversations(conversations: ConversationSummary[], query: string): ConversationSummary[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return conversations;
+  return conversations.filter((conversation) =>
+    conversation.turns.some((turn) => turn.content.toLowerCase().includes(needle))
+  );
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+// Heading a conversation is listed under, by when it was last active.
+export function dateGroupLabel(date: Date | null, now: Date = new Date()): string {
+  if (!date) return 'Undated';
+  const days = Math.round((startOfDay(now) - startOfDay(date)) / 86400000);
+  if (days <= 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  if (days < 7) return 'This week';
+  return date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+}
+
+// Rebuild the store's messages from a logged conversation, for picking it back up.
+export function logRowsToMessages(turns: ConversationLogRow[]): ClaraMessage[] {
+  return turns
+    .filter((turn) => turn.role === 'user' || turn.role === 'assistant')
+    .map((turn) => {
+      const emotion = turn.role === 'assistant' ? emotionOf(turn) : null;
+      return {
+        id: `log-${turn.id}`,
+        role: turn.role as ClaraMessage['role'],
+        content: turn.content,
+        timestamp: toDate(turn.created_at) ?? new Date(),
+        ...(emotion ? { emotion } : {}),
+      };
+    });
+}
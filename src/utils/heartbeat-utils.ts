@@ -153,6 +153,25 @@ export const sentimentToMoodMapping = (
   return 'neutral';
 };
 
+/**
+ * Backend emotion vocabulary → frontend EmotionalMood
+ */
+export const BACKEND_EMOTION_MOOD: Record<string, EmotionalMood> = {
+  'calm': 'calm',
+  'happy': 'happy',
+  'sad': 'sad',
+  'stressed': 'frustrated',
+  'sassy': 'excited',
+  'neutral': 'calm'
+};
+
+/**
+ * Map a backend conversation_emotion to a mood, calm for anything unrecognised
+ */
+export const backendEmotionToMood = (emotion: string): EmotionalMood => {
+  return BACKEND_EMOTION_MOOD[emotion] || 'calm';
+};
+
 /**
  * Smooth color transition configuration
  */